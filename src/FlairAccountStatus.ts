@@ -0,0 +1,441 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { readFlairCounts, readFlairGroup } from "./FlairScanStore.js";
+import { FlairBulkPlan, previewBulkChange } from "./FlairBulkActions.js";
+import { recordFlairAudit, requireFlairPermission } from "./FlairPermissions.js";
+import {
+	classifyScanError,
+	formatDuration,
+	formatNumberWithCommas,
+	isTimeRemaining,
+	registerFlairFormAction,
+	safeKVWrite,
+	sleep,
+	startTimer,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Types and config ---------- */
+
+export type AccountStatus = "active" | "suspended" | "deleted";
+
+export type AccountStatusCounts = Record<AccountStatus, number>;
+
+interface StoredAccountStatus {
+	status: AccountStatus;
+	checkedAt: number;
+}
+
+interface AccountCheckState {
+	flairs: string[]; // groups to check, largest first
+	flairIndex: number; // checkpoint: groups before this index are done...
+	userIndex: number; // ...and users before this index in flairs[flairIndex]
+	checked: number;
+	cached: number; // statuses reused from an earlier check
+	errors: number;
+	startedBy: string;
+	startedAt: number;
+	finishedAt?: number;
+	stopped?: boolean;
+}
+
+const CHECK_JOB_NAME = "flairAccountCheckChunk";
+const CHECK_STATE_KEY = "flairAccountCheckState";
+const STATUS_KEY = "flairAccountStatus"; // hash: username → JSON StoredAccountStatus
+const COUNTS_KEY = "flairAccountStatusCounts"; // hash: flair group → JSON AccountStatusCounts (as of the last check)
+const ALL_FLAIRS = "__all__";
+const STATUS_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // statuses younger than this are reused instead of asking Reddit again
+const CHECKPOINT_EVERY = 25; // users between checkpoints
+const SLEEP_BETWEEN_USERS_MS = 100;
+const TRANSIENT_ERROR_DELAY_MS = 30000; // pause before the next chunk after a rate limit or server error
+const REPORT_FLAIR_COUNT = 100;
+
+const DEAD_STATUSES: AccountStatus[] = ["suspended", "deleted"];
+
+function emptyCounts(): AccountStatusCounts {
+	return { active: 0, suspended: 0, deleted: 0 };
+}
+
+function isRunning(state: AccountCheckState | null): state is AccountCheckState {
+	return !!state && !state.stopped && !state.finishedAt;
+}
+
+async function getCheckState(context: JobContext): Promise<AccountCheckState | null> {
+	const raw = await context.kvStore.get(CHECK_STATE_KEY);
+	return raw ? (raw as unknown as AccountCheckState) : null;
+}
+
+export async function getAccountStatusCounts(context: JobContext): Promise<Record<string, AccountStatusCounts>> {
+	const raw = await context.redis.hGetAll(COUNTS_KEY);
+	return Object.fromEntries(Object.entries(raw ?? {}).map(([flair, json]) => [flair, JSON.parse(json) as AccountStatusCounts]));
+}
+
+async function readAccountStatuses(context: JobContext, usernames: string[]): Promise<Record<string, StoredAccountStatus>> {
+	if (usernames.length === 0) return {};
+	const values = await context.redis.hMGet(STATUS_KEY, usernames);
+	const statuses: Record<string, StoredAccountStatus> = {};
+	usernames.forEach((name, i) => {
+		if (values[i]) statuses[name] = JSON.parse(values[i]!) as StoredAccountStatus;
+	});
+	return statuses;
+}
+
+/* ---------- Part 2: Status lookup ---------- */
+
+/**
+ * fetchAccountStatus
+ * - Devvit returns no user for suspended and deleted accounts alike
+ * - the overview listing tells them apart: it is forbidden for suspended accounts and not found for deleted
+ *   (or shadowbanned) ones
+ */
+async function fetchAccountStatus(context: JobContext, username: string): Promise<AccountStatus> {
+	if (await context.reddit.getUserByUsername(username)) return "active";
+	try {
+		await context.reddit.getCommentsAndPostsByUser({ username, limit: 1, pageSize: 1 }).all();
+	} catch (err) {
+		if (/\b403\b|forbidden|suspend/i.test(String(err))) return "suspended";
+	}
+	return "deleted";
+}
+
+/* ---------- Part 3: Resumable check job ---------- */
+
+/*
+ * Works through state.flairs group by group from the (flairIndex, userIndex) checkpoint until the time budget runs out,
+ * then re-queues itself. Statuses and per-flair counts are written together with the checkpoint.
+ */
+Devvit.addSchedulerJob({
+	name: CHECK_JOB_NAME,
+	onRun: async (_, context) => {
+		const state = await getCheckState(context);
+		if (!isRunning(state)) return;
+
+		const { devvitExecutionTimeoutSeconds } = await getAppSettings(context);
+		const chunkStart = startTimer();
+		let delayNextChunk = 2000;
+
+		while (state.flairIndex < state.flairs.length && !state.stopped) {
+			const flair = state.flairs[state.flairIndex];
+			const users = await readFlairGroup(context, "result", flair);
+			const counts = state.userIndex === 0 ? emptyCounts() : ((await getAccountStatusCounts(context))[flair] ?? emptyCounts());
+			let outOfTime = false;
+
+			while (state.userIndex < users.length) {
+				if (!isTimeRemaining(chunkStart, devvitExecutionTimeoutSeconds)) {
+					outOfTime = true;
+					break;
+				}
+
+				const batch = users.slice(state.userIndex, state.userIndex + CHECKPOINT_EVERY);
+				const known = await readAccountStatuses(context, batch);
+				const updates: Record<string, string> = {};
+				let processed = 0;
+				for (const username of batch) {
+					const cached = known[username];
+					let status: AccountStatus;
+					if (cached && Date.now() - cached.checkedAt < STATUS_MAX_AGE_MS) {
+						status = cached.status;
+						state.cached++;
+					} else {
+						if (!isTimeRemaining(chunkStart, devvitExecutionTimeoutSeconds)) {
+							outOfTime = true;
+							break;
+						}
+						try {
+							status = await fetchAccountStatus(context, username);
+							updates[username] = JSON.stringify({ status, checkedAt: Date.now() } satisfies StoredAccountStatus);
+							state.checked++;
+						} catch (err) {
+							if (classifyScanError(err) === "transient") {
+								console.warn(`Account check for u/${username} hit a transient error; pausing:`, err);
+								delayNextChunk = TRANSIENT_ERROR_DELAY_MS;
+								outOfTime = true;
+								break;
+							}
+							// leave the user out of the counts rather than guess
+							console.error(`Account check failed for u/${username}:`, err);
+							state.errors++;
+							processed++;
+							continue;
+						}
+						await sleep(SLEEP_BETWEEN_USERS_MS);
+					}
+					counts[status]++;
+					processed++;
+				}
+
+				// checkpoint: statuses and counts first, then the cursor
+				if (Object.keys(updates).length > 0) await context.redis.hSet(STATUS_KEY, updates);
+				await context.redis.hSet(COUNTS_KEY, { [flair]: JSON.stringify(counts) });
+				state.userIndex += processed;
+				// a mod may have stopped the run while this chunk was working
+				if ((await getCheckState(context))?.stopped) state.stopped = true;
+				await safeKVWrite(context, CHECK_STATE_KEY, state);
+				if (outOfTime || state.stopped) break;
+			}
+
+			if (outOfTime || state.stopped) break;
+			if (users.length === 0) await context.redis.hDel(COUNTS_KEY, [flair]);
+			state.flairIndex++;
+			state.userIndex = 0;
+			await safeKVWrite(context, CHECK_STATE_KEY, state);
+		}
+
+		if (state.flairIndex >= state.flairs.length || state.stopped) {
+			state.finishedAt = Date.now();
+			await safeKVWrite(context, CHECK_STATE_KEY, state);
+			console.log(`Account status check finished: ${state.checked} checked, ${state.cached} cached, ${state.errors} errors${state.stopped ? " (stopped)" : ""}`);
+			await recordFlairAudit(context, {
+				user: state.startedBy,
+				action: "account status check finished",
+				outcome: state.errors > 0 ? "failed" : "ok",
+				detail: `${describeTarget(state.flairs)}: ${state.checked} checked, ${state.errors} errors${state.stopped ? ", stopped" : ""}`,
+			});
+			return;
+		}
+		await context.scheduler.runJob({ name: CHECK_JOB_NAME, runAt: new Date(Date.now() + delayNextChunk) });
+	},
+});
+
+function describeTarget(flairs: string[]): string {
+	return flairs.length === 1 ? `"${flairs[0]}"` : `${formatNumberWithCommas(flairs.length)} flair groups`;
+}
+
+async function startAccountCheck(context: Devvit.Context, flairs: string[]) {
+	if (!(await requireFlairPermission(context, "scan", "check account status"))) return;
+	const state: AccountCheckState = {
+		flairs,
+		flairIndex: 0,
+		userIndex: 0,
+		checked: 0,
+		cached: 0,
+		errors: 0,
+		startedBy: (await context.reddit.getCurrentUsername()) ?? "unknown",
+		startedAt: Date.now(),
+	};
+	await safeKVWrite(context, CHECK_STATE_KEY, state);
+	await context.scheduler.runJob({ name: CHECK_JOB_NAME, runAt: new Date() });
+	context.ui.showToast(`Checking account status for ${describeTarget(flairs)} in the background`);
+	await recordFlairAudit(context, { action: "start account status check", outcome: "ok", detail: describeTarget(flairs) });
+}
+
+/* ---------- Part 4: Reports ---------- */
+
+function formatStatusCounts(counts: AccountStatusCounts): string {
+	const total = counts.active + counts.suspended + counts.deleted;
+	return `${formatNumberWithCommas(total)} checked: ${formatNumberWithCommas(counts.active)} active, ${formatNumberWithCommas(counts.suspended)} suspended, ${formatNumberWithCommas(
+		counts.deleted
+	)} deleted`;
+}
+
+/* formatAccountStatusBreakdown: per-flair status counts, flairs with the most dead accounts first */
+export function formatAccountStatusBreakdown(countsByFlair: Record<string, AccountStatusCounts>, maxLines = REPORT_FLAIR_COUNT): string {
+	const entries = Object.entries(countsByFlair);
+	if (entries.length === 0) return "No account status check yet. Pick \"Check account status\" under More actions.";
+	const totals = emptyCounts();
+	for (const [, counts] of entries) for (const status of Object.keys(totals) as AccountStatus[]) totals[status] += counts[status];
+	const dead = (c: AccountStatusCounts) => c.suspended + c.deleted;
+	const lines = entries
+		.sort(([, a], [, b]) => dead(b) - dead(a) || b.active - a.active)
+		.slice(0, maxLines)
+		.map(([flair, counts]) => `• ${flair} — ${formatStatusCounts(counts)}`);
+	if (entries.length > maxLines) lines.push(`…and ${formatNumberWithCommas(entries.length - maxLines)} more flairs`);
+	return `All checked flairs — ${formatStatusCounts(totals)}\n\n${lines.join("\n")}`;
+}
+
+function describeCheckState(state: AccountCheckState): string {
+	const status = state.stopped ? "⏹️ Stopped" : state.finishedAt ? "🟢 Finished" : "🟡 Running";
+	const elapsed = formatDuration((state.finishedAt ?? Date.now()) - state.startedAt);
+	const current = isRunning(state) && state.flairIndex < state.flairs.length ? `\nNow checking "${state.flairs[state.flairIndex]}" (user ${formatNumberWithCommas(state.userIndex)})` : "";
+	return (
+		`${status} (started by u/${state.startedBy}, ⏱️ ${elapsed})\n` +
+		`${describeTarget(state.flairs)}: ${formatNumberWithCommas(Math.min(state.flairIndex, state.flairs.length))} done${current}\n` +
+		`${formatNumberWithCommas(state.checked)} looked up, ${formatNumberWithCommas(state.cached)} reused from earlier checks, ${formatNumberWithCommas(state.errors)} errors`
+	);
+}
+
+/* ---------- Part 5: Forms ---------- */
+
+const accountCheckForm = Devvit.createForm(
+	(data) => ({
+		title: "Account Status by Flair",
+		acceptLabel: data.running ? "Refresh" : "Start Check",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "report",
+				type: "paragraph",
+				label: data.status ? "Progress and results" : "Results",
+				defaultValue: data.report,
+				disabled: true,
+				lineHeight: 10,
+			},
+			...(data.running
+				? [{ name: "stop", type: "boolean" as const, label: "Stop check" }]
+				: [
+						{
+							name: "flair",
+							type: "select" as const,
+							label: "Flair group to check",
+							options: data.flairOptions,
+							defaultValue: [ALL_FLAIRS],
+							multiSelect: false,
+							helpText: "Suspended and deleted accounts still count toward flair totals until their flair is cleared",
+						},
+				  ]),
+		],
+	}),
+	async ({ values }, context) => {
+		try {
+			const state = await getCheckState(context);
+			if (isRunning(state)) {
+				if (values.stop) {
+					if (!(await requireFlairPermission(context, "scan", "stop an account status check"))) return;
+					await safeKVWrite(context, CHECK_STATE_KEY, { ...state, stopped: true });
+					await recordFlairAudit(context, { action: "stop account status check", outcome: "ok" });
+					context.ui.showToast("Account status check will stop after the current batch.");
+					return;
+				}
+				await showAccountCheckForm(context);
+				return;
+			}
+
+			const choice = values.flair?.[0] ?? ALL_FLAIRS;
+			const flairCounts = await readFlairCounts(context, "result");
+			const flairs =
+				choice === ALL_FLAIRS
+					? Object.entries(flairCounts)
+							.sort(([, a], [, b]) => b - a)
+							.map(([flair]) => flair)
+					: flairCounts[choice]
+					? [choice]
+					: [];
+			if (flairs.length === 0) {
+				context.ui.showToast("That flair group has no users in the last scan.");
+				return;
+			}
+			// a check of every group replaces the old counts entirely
+			if (choice === ALL_FLAIRS) await context.redis.del(COUNTS_KEY);
+			await startAccountCheck(context, flairs);
+		} catch (error) {
+			console.error("Error starting account status check:", error);
+			context.ui.showToast("Error starting account status check (" + error + ")");
+		}
+	}
+);
+
+async function showAccountCheckForm(context: Devvit.Context) {
+	const flairCounts = await readFlairCounts(context, "result");
+	if (Object.keys(flairCounts).length === 0) {
+		context.ui.showToast("No completed scan with flair groups yet.");
+		return;
+	}
+	const state = await getCheckState(context);
+	const breakdown = formatAccountStatusBreakdown(await getAccountStatusCounts(context));
+	const flairOptions = [
+		{ label: "All flair groups", value: ALL_FLAIRS },
+		...Object.entries(flairCounts)
+			.sort(([, a], [, b]) => b - a)
+			.map(([flair, count]) => ({ label: `${flair} (${formatNumberWithCommas(count)})`, value: flair })),
+	];
+	context.ui.showForm(accountCheckForm, {
+		running: isRunning(state),
+		status: !!state,
+		report: state ? `${describeCheckState(state)}\n\n${breakdown}` : breakdown,
+		flairOptions,
+	});
+}
+
+const deadAccountCleanupForm = Devvit.createForm(
+	(data) => ({
+		title: "Clear Flair from Dead Accounts",
+		acceptLabel: "Preview",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "flair",
+				type: "select",
+				label: "Flair group",
+				options: data.flairOptions,
+				defaultValue: [ALL_FLAIRS],
+				multiSelect: false,
+				required: true,
+			},
+			{
+				name: "statuses",
+				type: "select",
+				label: "Clear flair from accounts that are",
+				options: [
+					{ label: "Suspended", value: "suspended" },
+					{ label: "Deleted", value: "deleted" },
+				],
+				defaultValue: DEAD_STATUSES,
+				multiSelect: true,
+				required: true,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		try {
+			const statuses = (values.statuses ?? []) as AccountStatus[];
+			const choice = values.flair?.[0] ?? ALL_FLAIRS;
+			const countsByFlair = await getAccountStatusCounts(context);
+			const flairs = choice === ALL_FLAIRS ? Object.keys(countsByFlair) : [choice];
+
+			// only statuses from the last check: users flaired since then haven't been looked at
+			const users: string[] = [];
+			for (const flair of flairs) {
+				const members = await readFlairGroup(context, "result", flair);
+				for (let i = 0; i < members.length; i += 500) {
+					const known = await readAccountStatuses(context, members.slice(i, i + 500));
+					for (const [username, { status }] of Object.entries(known)) if (statuses.includes(status)) users.push(username);
+				}
+			}
+			if (users.length === 0) {
+				context.ui.showToast("No checked accounts with those statuses in that flair group.");
+				return;
+			}
+
+			const plan: FlairBulkPlan = {
+				sourceFlair: choice === ALL_FLAIRS ? "" : choice,
+				label: `${statuses.join(" and ")} accounts in ${choice === ALL_FLAIRS ? "all checked flair groups" : `"${choice}"`}`,
+				mode: "clear",
+				templateId: null,
+				templateText: null,
+				users,
+			};
+			await previewBulkChange(context, plan);
+		} catch (error) {
+			console.error("Error preparing dead account cleanup:", error);
+			context.ui.showToast("Error preparing dead account cleanup (" + error + ")");
+		}
+	}
+);
+
+registerFlairFormAction({
+	value: "accountStatus",
+	label: "Check account status (active / suspended / deleted)",
+	run: showAccountCheckForm,
+});
+
+registerFlairFormAction({
+	value: "deadAccountCleanup",
+	label: "Clear flair from suspended or deleted accounts",
+	permission: "manage",
+	run: async (context) => {
+		const countsByFlair = await getAccountStatusCounts(context);
+		const flairOptions = Object.entries(countsByFlair)
+			.filter(([, counts]) => counts.suspended + counts.deleted > 0)
+			.sort(([, a], [, b]) => b.suspended + b.deleted - (a.suspended + a.deleted))
+			.map(([flair, counts]) => ({ label: `${flair} (${formatNumberWithCommas(counts.suspended + counts.deleted)} dead)`, value: flair }));
+		if (flairOptions.length === 0) {
+			context.ui.showToast("No suspended or deleted accounts found yet. Run \"Check account status\" first.");
+			return;
+		}
+		context.ui.showForm(deadAccountCleanupForm, { flairOptions: [{ label: "All checked flair groups", value: ALL_FLAIRS }, ...flairOptions] });
+	},
+});
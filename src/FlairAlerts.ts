@@ -0,0 +1,230 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { FlairMatcher, parseFlairPatterns } from "./FlairCensus.js";
+import { recordFlairAudit } from "./FlairPermissions.js";
+import { diffFlairGroups, FlairGroupDiff, getSnapshot, getSnapshotIndex } from "./FlairSnapshots.js";
+import { chunkLinesByLength, escapeMarkdown, MAX_COMMENT_CHARACTER_COUNT } from "./RedditUtils.js";
+import {
+	FlairScanResult,
+	formatNumberWithCommas,
+	getCompletedScanResult,
+	isNoTextFlairGroup,
+	registerFlairFormAction,
+	registerScanCompletedHandler,
+	safeKVWrite,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+});
+
+/* ---------- Part 1: Rules ---------- */
+
+interface FlairAlertRule {
+	line: string; // as written in the settings, for the alert message
+	matches: FlairMatcher;
+	max?: number; // fires when the group has more members than this
+	changePercent?: number; // fires when the group grew or shrank by at least this much since the last completed scan
+	changeMin?: number; // ...unless it had fewer members than this both before and after
+	appeared?: boolean; // fires for flair texts the last completed scan didn't have
+}
+
+interface FiredAlert {
+	flair: string;
+	rule: string;
+	reason: string;
+	usersLabel: string;
+	users: string[]; // the offending users: new holders where known, otherwise every holder
+	removed?: string[]; // for shrinking groups, who left
+}
+
+const ALERTS_LAST_SCAN_KEY = "flairAlertsLastScan"; // timestamp of the scan alerts were last sent for
+const USERS_PER_ALERT = 100;
+
+/**
+ * parseAlertRules
+ * - one rule per line: `flair => condition, condition`
+ * - the flair is matched like the census lists (exact text, any case, or `/pattern/flags`); `*` matches every flair
+ * - conditions: `max N`, `change N%` (optionally `change N% min M`), `new`
+ * - blank lines and lines starting with # are ignored
+ */
+export function parseAlertRules(text: string): { rules: FlairAlertRule[]; errors: string[] } {
+	const rules: FlairAlertRule[] = [];
+	const errors: string[] = [];
+	for (const [i, rawLine] of (text ?? "").split("\n").entries()) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+		const separator = line.lastIndexOf("=>");
+		if (separator < 0) {
+			errors.push(`Line ${i + 1}: expected "flair => condition"`);
+			continue;
+		}
+		const flair = line.slice(0, separator).trim();
+		const { matchers, errors: flairErrors } = flair === "*" ? { matchers: [() => true], errors: [] } : parseFlairPatterns(flair);
+		if (flairErrors.length > 0 || matchers.length !== 1) {
+			errors.push(`Line ${i + 1}: ${flairErrors[0]?.replace(/^Line \d+: /, "") ?? "missing flair"}`);
+			continue;
+		}
+
+		const rule: FlairAlertRule = { line, matches: matchers[0] };
+		for (const condition of line.slice(separator + 2).split(",").map((c) => c.trim().toLocaleLowerCase())) {
+			let match: RegExpExecArray | null;
+			if ((match = /^max\s+(\d+)$/.exec(condition))) rule.max = parseInt(match[1], 10);
+			else if ((match = /^change\s+(\d+(?:\.\d+)?)\s*%(?:\s+min\s+(\d+))?$/.exec(condition))) {
+				rule.changePercent = parseFloat(match[1]);
+				if (match[2]) rule.changeMin = parseInt(match[2], 10);
+			} else if (condition === "new") rule.appeared = true;
+			else errors.push(`Line ${i + 1}: unknown condition "${condition}" (use max N, change N%, or new)`);
+		}
+		if (rule.max === undefined && rule.changePercent === undefined && !rule.appeared) {
+			if (!errors.some((e) => e.startsWith(`Line ${i + 1}:`))) errors.push(`Line ${i + 1}: no condition`);
+			continue;
+		}
+		rules.push(rule);
+	}
+	return { rules, errors };
+}
+
+/* ---------- Part 2: Evaluation ---------- */
+
+/* evaluateAlertRules: every rule that fires for `current`, compared with the previous completed scan (if any) */
+export function evaluateAlertRules(rules: FlairAlertRule[], current: FlairScanResult, previous: FlairScanResult | null): FiredAlert[] {
+	const diffs: Record<string, FlairGroupDiff> = previous ? diffFlairGroups(previous.flairGroups, current.flairGroups) : {};
+	const newHolders = (flair: string) => [...(diffs[flair]?.added ?? []), ...(diffs[flair]?.movedIn.map((m) => m.user) ?? [])];
+	const leavers = (flair: string) => [...(diffs[flair]?.removed ?? []), ...(diffs[flair]?.movedOut.map((m) => m.user) ?? [])];
+
+	const flairs = new Set([...Object.keys(current.flairGroups), ...Object.keys(previous?.flairGroups ?? {})]);
+	const fired: FiredAlert[] = [];
+	for (const flair of flairs) {
+		if (isNoTextFlairGroup(flair)) continue;
+		const holders = current.flairGroups[flair] ?? [];
+		const before = previous?.flairGroups[flair]?.length ?? 0;
+		const after = holders.length;
+		const added = newHolders(flair);
+
+		for (const rule of rules) {
+			if (!rule.matches(flair)) continue;
+			if (rule.max !== undefined && after > rule.max) {
+				// new holders first, since they're usually the ones that pushed it over
+				const addedSet = new Set(added);
+				const users = [...added, ...holders.filter((u) => !addedSet.has(u))];
+				fired.push({ flair, rule: rule.line, reason: `${formatNumberWithCommas(after)} holders, over the cap of ${formatNumberWithCommas(rule.max)}`, usersLabel: "Holders", users });
+			}
+			if (rule.changePercent !== undefined && previous && before !== after && Math.max(before, after) >= (rule.changeMin ?? 0)) {
+				const percent = before === 0 ? Infinity : (Math.abs(after - before) / before) * 100;
+				if (percent >= rule.changePercent) {
+					const direction = after > before ? "grew" : after === 0 ? "vanished" : "shrank";
+					const change = before === 0 ? "" : ` (${after > before ? "+" : "−"}${Math.round(percent)}%)`;
+					fired.push({
+						flair,
+						rule: rule.line,
+						reason: `${direction} from ${formatNumberWithCommas(before)} to ${formatNumberWithCommas(after)}${change}`,
+						usersLabel: "New holders",
+						users: added,
+						removed: after < before ? leavers(flair) : undefined,
+					});
+				}
+			}
+			if (rule.appeared && previous && before === 0 && after > 0) {
+				fired.push({ flair, rule: rule.line, reason: `new flair text, ${formatNumberWithCommas(after)} holder${after === 1 ? "" : "s"}`, usersLabel: "Holders", users: holders });
+			}
+		}
+	}
+	return fired;
+}
+
+function formatUserList(users: string[]): string {
+	const shown = users.slice(0, USERS_PER_ALERT).map((u) => `u/${u}`);
+	if (users.length > USERS_PER_ALERT) shown.push(`…and ${formatNumberWithCommas(users.length - USERS_PER_ALERT)} more`);
+	return shown.join(", ");
+}
+
+function formatAlertLines(fired: FiredAlert[]): string[] {
+	const lines: string[] = [];
+	for (const alert of fired) {
+		lines.push(`**${escapeMarkdown(alert.flair)}**: ${alert.reason}  `, `Rule: \`${alert.rule}\``, "");
+		if (alert.users.length > 0) lines.push(`${alert.usersLabel}: ${formatUserList(alert.users)}`, "");
+		if (alert.removed && alert.removed.length > 0) lines.push(`No longer holding it: ${formatUserList(alert.removed)}`, "");
+	}
+	return lines;
+}
+
+/* the most recent kept snapshot that isn't `current` itself */
+async function getPreviousScan(context: JobContext, current: FlairScanResult): Promise<FlairScanResult | null> {
+	const previous = (await getSnapshotIndex(context)).find((s) => s.timestamp !== current.timestamp);
+	return previous ? await getSnapshot(context, previous.id) : null;
+}
+
+/* ---------- Part 3: Sending ---------- */
+
+async function sendFlairAlerts(context: JobContext, result: FlairScanResult) {
+	const { flairAlertRules } = await getAppSettings(context);
+	const { rules } = parseAlertRules(flairAlertRules);
+	if (rules.length === 0) return;
+	// completed-scan handlers can be re-run for the same result; alert once per scan
+	if ((await context.kvStore.get(ALERTS_LAST_SCAN_KEY)) === result.timestamp) return;
+
+	const fired = evaluateAlertRules(rules, result, await getPreviousScan(context, result));
+	await safeKVWrite(context, ALERTS_LAST_SCAN_KEY, result.timestamp);
+	if (fired.length === 0) return;
+
+	const [first, ...rest] = chunkLinesByLength(formatAlertLines(fired), MAX_COMMENT_CHARACTER_COUNT - 500);
+	const conversationId = await context.reddit.modMail.createModDiscussionConversation({
+		subject: `Flair Fax alert: ${fired.length} flair rule${fired.length === 1 ? "" : "s"} fired`,
+		bodyMarkdown: `The scan from ${new Date(result.timestamp).toLocaleString()} set off these flair alert rules:\n\n${first}`,
+		subredditId: context.subredditId,
+	});
+	for (const chunk of rest) await context.reddit.modMail.reply({ conversationId, body: chunk });
+
+	console.log(`Sent ${fired.length} flair alerts to modmail`);
+	await recordFlairAudit(context, { user: "scheduler", action: "send flair alerts", outcome: "ok", detail: `${fired.length} rules fired` });
+}
+
+registerScanCompletedHandler("alerts", sendFlairAlerts);
+
+/* ---------- Part 4: Preview form ---------- */
+
+const alertPreviewForm = Devvit.createForm(
+	(data) => ({
+		title: "Flair Alert Rules",
+		acceptLabel: "Close",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "preview",
+				type: "paragraph",
+				label: "What the rules report for the last completed scan (nothing is sent)",
+				defaultValue: data.preview,
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async () => {}
+);
+
+registerFlairFormAction({
+	value: "alertPreview",
+	label: "Preview flair alert rules against the last scan",
+	run: async (context) => {
+		try {
+			const result = await getCompletedScanResult(context);
+			if (!result) {
+				context.ui.showToast("No completed scan yet.");
+				return;
+			}
+			const { flairAlertRules } = await getAppSettings(context);
+			const { rules } = parseAlertRules(flairAlertRules);
+			if (rules.length === 0) {
+				context.ui.showToast("No flair alert rules are set up in the app settings.");
+				return;
+			}
+			const fired = evaluateAlertRules(rules, result, await getPreviousScan(context, result));
+			const preview = fired.length > 0 ? formatAlertLines(fired).join("\n") : "No rule fires for the last completed scan.";
+			context.ui.showForm(alertPreviewForm, { preview });
+		} catch (error) {
+			console.error("Error previewing flair alerts:", error);
+			context.ui.showToast("Error previewing flair alerts (" + error + ")");
+		}
+	},
+});
@@ -0,0 +1,197 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { readFlairCounts } from "./FlairScanStore.js";
+import { formatAccountStatusBreakdown, getAccountStatusCounts } from "./FlairAccountStatus.js";
+import { clusterFlairCounts, formatFlairClusters, formatNearDuplicateReport, getNormalizationRules } from "./FlairNormalization.js";
+import {
+	FlairScanResult,
+	formatFlairPreviewCounts,
+	formatNumberWithCommas,
+	getCompletedScanResult,
+	registerFlairFormAction,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+});
+
+/* ---------- Part 1: Pivots ---------- */
+
+export type FlairPivot = "text" | "template" | "cssClass";
+
+export interface FlairTemplateInfo {
+	id: string;
+	text: string;
+}
+
+const NO_TEMPLATE = "(no matching template)";
+const SHARED_TEMPLATE_TEXT = "(unattributed: several templates share this text)";
+const NO_CSS_CLASS = "(no CSS class)";
+
+export async function getFlairTemplateInfos(context: JobContext): Promise<FlairTemplateInfo[]> {
+	const subredditName = await context.reddit.getCurrentSubredditName();
+	return (await context.reddit.getUserFlairTemplates(subredditName)).map((t) => ({ id: t.id, text: (t.text || "").trim() }));
+}
+
+function formatTemplateKey(id: string, templates: FlairTemplateInfo[]): string {
+	const template = templates.find((t) => t.id === id);
+	// the short ID keeps templates with identical text apart
+	return template ? `${template.text || "(empty text)"} [${id.slice(0, 8)}]` : `(deleted template) [${id.slice(0, 8)}]`;
+}
+
+/**
+ * Regroup a scan result by flair text (as scanned), flair template, or CSS class.
+ * Users whose template isn't known land in a catch-all group.
+ */
+export function pivotFlairGroups(result: FlairScanResult, pivot: FlairPivot, templates: FlairTemplateInfo[] = []): Record<string, string[]> {
+	if (pivot === "text") return result.flairGroups;
+
+	const templateCountByText: Record<string, number> = {};
+	for (const t of templates) templateCountByText[t.text] = (templateCountByText[t.text] ?? 0) + 1;
+
+	const groups: Record<string, string[]> = {};
+	for (const [flairText, users] of Object.entries(result.flairGroups)) {
+		for (const user of users) {
+			let key: string;
+			if (pivot === "cssClass") {
+				key = result.flairCssClasses?.[user] ? `css: ${result.flairCssClasses[user]}` : NO_CSS_CLASS;
+			} else {
+				const templateId = result.flairTemplateIds?.[user];
+				key = templateId ? formatTemplateKey(templateId, templates) : (templateCountByText[flairText] ?? 0) > 1 ? SHARED_TEMPLATE_TEXT : NO_TEMPLATE;
+			}
+			(groups[key] ??= []).push(user);
+		}
+	}
+	return groups;
+}
+
+/* formatTemplatePivot: the template breakdown, headed by how many users couldn't be attributed to one template */
+function formatTemplatePivot(groups: Record<string, string[]>): string {
+	const breakdown = formatFlairPreviewCounts(groups, 100);
+	const unattributed = groups[SHARED_TEMPLATE_TEXT]?.length ?? 0;
+	if (!unattributed) return breakdown;
+	return (
+		`${unattributed} user${unattributed === 1 ? "" : "s"} couldn't be attributed to a template: their flair text is shared by several templates, ` +
+		`Reddit's flair listing has no template ID, and no earlier scan or live update recorded theirs. ` +
+		`The counts per template below leave them out.\n\n${breakdown}`
+	);
+}
+
+/* ---------- Part 2: Customized flair report ---------- */
+
+interface CustomizedFlair {
+	user: string;
+	text: string;
+	templateText: string | null; // null when no template has this text at all
+}
+
+/**
+ * Users whose flair text differs from their template's default text.
+ * Where the template isn't known, a text that matches no template's default counts as customized.
+ */
+export function findCustomizedFlairs(result: FlairScanResult, templates: FlairTemplateInfo[]): CustomizedFlair[] {
+	const templateTexts = new Set(templates.map((t) => t.text));
+	const customized: CustomizedFlair[] = [];
+	for (const [text, users] of Object.entries(result.flairGroups)) {
+		for (const user of users) {
+			const templateId = result.flairTemplateIds?.[user];
+			const template = templateId ? templates.find((t) => t.id === templateId) : undefined;
+			if (template) {
+				if (template.text !== text) customized.push({ user, text, templateText: template.text });
+			} else if (!templateTexts.has(text)) {
+				customized.push({ user, text, templateText: null });
+			}
+		}
+	}
+	return customized;
+}
+
+function formatCustomizedReport(customized: CustomizedFlair[], maxLines = 200): string {
+	if (customized.length === 0) return "Every flair matches its template's default text.";
+	const lines = customized.map(({ user, text, templateText }) =>
+		templateText === null ? `• u/${user}: "${text}" (matches no template)` : `• u/${user}: "${text}" (template default: "${templateText}")`
+	);
+	const shown = lines.slice(0, maxLines).join("\n");
+	const more = lines.length > maxLines ? `\n…and ${formatNumberWithCommas(lines.length - maxLines)} more` : "";
+	return `${formatNumberWithCommas(customized.length)} users with customized flair text:\n${shown}${more}`;
+}
+
+/* ---------- Part 3: Form ---------- */
+
+const PIVOT_OPTIONS = [
+	{ label: "Flair text", value: "text" },
+	{ label: "Flair template", value: "template" },
+	{ label: "CSS class", value: "cssClass" },
+	{ label: "Customized text (differs from template default)", value: "customized" },
+	{ label: "Normalized clusters (variants merged)", value: "normalized" },
+	{ label: "Near-duplicate flairs", value: "nearDuplicates" },
+	{ label: "Account status (active / suspended / deleted)", value: "accountStatus" },
+];
+
+const breakdownForm = Devvit.createForm(
+	(data) => ({
+		title: "User Flair Breakdown",
+		acceptLabel: "Show",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "pivot",
+				type: "select",
+				label: "Group by",
+				options: PIVOT_OPTIONS,
+				defaultValue: [data.pivot ?? "text"],
+				multiSelect: false,
+			},
+			{
+				name: "breakdown",
+				type: "paragraph",
+				label: "Breakdown",
+				defaultValue: data.breakdown,
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		await showBreakdownForm(context, values.pivot?.[0] ?? "text");
+	}
+);
+
+async function showBreakdownForm(context: Devvit.Context, pivot: string) {
+	try {
+		// clusters only need per-flair counts, not the user lists
+		if (pivot === "normalized" || pivot === "nearDuplicates") {
+			const clusters = clusterFlairCounts(await readFlairCounts(context, "result"), await getNormalizationRules(context));
+			const breakdown = pivot === "normalized" ? formatFlairClusters(clusters) : formatNearDuplicateReport(clusters);
+			context.ui.showForm(breakdownForm, { pivot, breakdown });
+			return;
+		}
+
+		if (pivot === "accountStatus") {
+			context.ui.showForm(breakdownForm, { pivot, breakdown: formatAccountStatusBreakdown(await getAccountStatusCounts(context)) });
+			return;
+		}
+
+		const result = await getCompletedScanResult(context);
+		if (!result) {
+			context.ui.showToast("No completed scan yet.");
+			return;
+		}
+		const templates = pivot === "text" ? [] : await getFlairTemplateInfos(context);
+		const breakdown =
+			pivot === "customized"
+				? formatCustomizedReport(findCustomizedFlairs(result, templates))
+				: pivot === "template"
+					? formatTemplatePivot(pivotFlairGroups(result, pivot, templates))
+					: formatFlairPreviewCounts(pivotFlairGroups(result, pivot as FlairPivot, templates), 100);
+		context.ui.showForm(breakdownForm, { pivot, breakdown });
+	} catch (error) {
+		console.error("Error building flair breakdown:", error);
+		context.ui.showToast("Error building flair breakdown (" + error + ")");
+	}
+}
+
+registerFlairFormAction({
+	value: "pivotBreakdown",
+	label: "Breakdown by template / CSS class / normalized clusters",
+	run: (context) => showBreakdownForm(context, "template"),
+});
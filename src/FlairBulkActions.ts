@@ -0,0 +1,603 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { readFlairCounts, readFlairGroup, readUserFlairs } from "./FlairScanStore.js";
+import { recordFlairAudit, requireFlairPermission } from "./FlairPermissions.js";
+import {
+	applyUserFlairChanges,
+	formatDuration,
+	formatNumberWithCommas,
+	isTimeRemaining,
+	registerFlairFormAction,
+	safeKVDelete,
+	safeKVWrite,
+	sleep,
+	startTimer,
+	UserFlairChange,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Types and config ---------- */
+
+type BulkMode = "set" | "clear" | "reset";
+
+export interface FlairBulkPlan {
+	sourceFlair: string;
+	label?: string; // describes the users when they aren't simply everyone with sourceFlair
+	mode: BulkMode;
+	templateId: string | null;
+	templateText: string | null;
+	cssClass?: string; // set: the CSS class to give everyone; without it each user keeps their own
+	users: string[];
+	// reset: each user's own template (users without one are cleared), and the default text per template
+	userTemplates?: Record<string, string>;
+	templateTexts?: Record<string, string>;
+}
+
+/* what is kept in KV (or the state key): the user list and per-user templates live in sharded Redis keys (see Part 1b) */
+interface StoredBulkPlan extends Omit<FlairBulkPlan, "users" | "userTemplates"> {
+	userCount: number;
+	proposedBy?: string; // set for plans stored by a background job, which wait for a mod to apply them
+	proposedAt?: number;
+}
+
+interface FlairBulkState extends StoredBulkPlan {
+	runId: string; // names this run's user shards, so a new run never writes over a running one's
+	nextIndex: number; // checkpoint: users before this index are done
+	changed: number;
+	failedCount: number;
+	failed: string[]; // the first FAILED_SAMPLE_SIZE failures
+	startedBy: string;
+	startedAt: number;
+	finishedAt?: number;
+	stopped?: boolean;
+}
+
+const BULK_JOB_NAME = "flairBulkChunk";
+const BULK_PLAN_KEY_PREFIX = "flairBulkPlan:"; // + plan owner: dry-run plan waiting for confirmation
+const BULK_STATE_KEY = "flairBulkState"; // Redis: JSON FlairBulkState of the running (or last finished) bulk change
+const PROPOSAL_PLAN_OWNER = "proposal"; // plans stored by a background job; a mod's own dry runs are "mod:<username>"
+const MAX_STATE_WRITE_ATTEMPTS = 5;
+const BULK_CHECKPOINT_EVERY = 25; // users between KV checkpoints / stored-result updates
+const BULK_USER_SHARD_SIZE = 2000; // users per Redis key, so a huge flair group never becomes one oversized value
+const FAILED_SAMPLE_SIZE = 100;
+const SLEEP_BETWEEN_USERS_MS = 100;
+const PREVIEW_USER_COUNT = 50;
+
+function describePlan(plan: StoredBulkPlan): string {
+	const target =
+		plan.mode === "clear"
+			? "no flair (cleared)"
+			: plan.mode === "reset"
+			? "their template's default text (cleared where the template is unknown)"
+			: `template "${plan.templateText}"${plan.cssClass ? ` with CSS class "${plan.cssClass}"` : ", keeping each user's CSS class"}`;
+	return `${plan.label ?? `"${plan.sourceFlair}"`} → ${target}\n${formatNumberWithCommas(plan.userCount)} user${plan.userCount === 1 ? "" : "s"} affected`;
+}
+
+function describeState(state: FlairBulkState): string {
+	const done = state.nextIndex >= state.userCount;
+	const status = state.stopped ? "⏹️ Stopped" : done ? "🟢 Finished" : "🟡 Running";
+	const elapsed = formatDuration((state.finishedAt ?? Date.now()) - state.startedAt);
+	let text =
+		`${status} (started by u/${state.startedBy}, ⏱️ ${elapsed})\n${describePlan(state)}\n` +
+		`Processed ${formatNumberWithCommas(state.nextIndex)} of ${formatNumberWithCommas(state.userCount)}: ` +
+		`${formatNumberWithCommas(state.changed)} changed, ${formatNumberWithCommas(state.failedCount)} failed`;
+	if (state.failedCount > 0) {
+		text += `\nFailed: ${state.failed.slice(0, PREVIEW_USER_COUNT).map((u) => `u/${u}`).join(", ")}`;
+		if (state.failedCount > PREVIEW_USER_COUNT) text += ` …and ${formatNumberWithCommas(state.failedCount - PREVIEW_USER_COUNT)} more`;
+	}
+	return text;
+}
+
+function isRunning(state: FlairBulkState | null): state is FlairBulkState {
+	return !!state && !state.stopped && state.nextIndex < state.userCount;
+}
+
+async function getBulkState(context: JobContext): Promise<FlairBulkState | null> {
+	const raw = await context.redis.get(BULK_STATE_KEY);
+	return raw ? (JSON.parse(raw) as FlairBulkState) : null;
+}
+
+/**
+ * updateBulkState
+ * - read-modify-write of the state under WATCH, retried when another write got in first
+ * - so the runner's checkpoints and a mod's stop request can never overwrite each other
+ * - `update` returns null to leave the state as it is
+ */
+async function updateBulkState(context: JobContext, update: (latest: FlairBulkState | null) => FlairBulkState | null): Promise<FlairBulkState | null> {
+	for (let attempt = 0; attempt < MAX_STATE_WRITE_ATTEMPTS; attempt++) {
+		const txn = await context.redis.watch(BULK_STATE_KEY);
+		const next = update(await getBulkState(context));
+		if (!next) {
+			await txn.unwatch();
+			return null;
+		}
+		try {
+			await txn.multi();
+			await txn.set(BULK_STATE_KEY, JSON.stringify(next));
+			if ((await txn.exec())?.length) return next;
+		} catch (err) {
+			console.warn("Bulk flair change state changed while saving it; retrying:", err);
+		}
+	}
+	throw new Error("could not save the bulk flair change state");
+}
+
+/* ---------- Part 1b: Sharded user lists ---------- */
+
+type BulkSlot = `plan:${string}` | `run:${string}`;
+
+function bulkUsersKey(slot: BulkSlot, shard: number) {
+	return `flairBulk:${slot}:users:${shard}`;
+}
+
+function bulkTemplatesKey(slot: BulkSlot) {
+	return `flairBulk:${slot}:templates`; // hash: username → template ID (reset mode)
+}
+
+async function deleteBulkUsers(context: JobContext, slot: BulkSlot, userCount: number) {
+	for (let shard = 0; shard * BULK_USER_SHARD_SIZE < userCount; shard++) await context.redis.del(bulkUsersKey(slot, shard));
+	await context.redis.del(bulkTemplatesKey(slot));
+}
+
+/* writeBulkUsers: store the plan's users (and reset templates) under `slot`; returns the KV part of the plan */
+async function writeBulkUsers(context: JobContext, slot: BulkSlot, plan: FlairBulkPlan): Promise<StoredBulkPlan> {
+	const { users, userTemplates, ...rest } = plan;
+	for (let shard = 0; shard * BULK_USER_SHARD_SIZE < users.length; shard++) {
+		await context.redis.set(bulkUsersKey(slot, shard), JSON.stringify(users.slice(shard * BULK_USER_SHARD_SIZE, (shard + 1) * BULK_USER_SHARD_SIZE)));
+	}
+	await context.redis.del(bulkTemplatesKey(slot));
+	const templates = Object.entries(userTemplates ?? {});
+	for (let i = 0; i < templates.length; i += BULK_USER_SHARD_SIZE) {
+		await context.redis.hSet(bulkTemplatesKey(slot), Object.fromEntries(templates.slice(i, i + BULK_USER_SHARD_SIZE)));
+	}
+	return { ...rest, userCount: users.length };
+}
+
+async function readBulkUserShard(context: JobContext, slot: BulkSlot, shard: number): Promise<string[]> {
+	const raw = await context.redis.get(bulkUsersKey(slot, shard));
+	return raw ? (JSON.parse(raw) as string[]) : [];
+}
+
+/* each mod has their own dry run, so one mod's preview never replaces another's (or a proposal) */
+async function modPlanOwner(context: Devvit.Context): Promise<string> {
+	return `mod:${(await context.reddit.getCurrentUsername()) ?? "unknown"}`;
+}
+
+async function getStoredPlan(context: JobContext, owner: string): Promise<StoredBulkPlan | null> {
+	const raw = await context.kvStore.get(BULK_PLAN_KEY_PREFIX + owner);
+	return raw ? (raw as unknown as StoredBulkPlan) : null;
+}
+
+/* loadBulkPlan: `owner`'s plan waiting for confirmation, users included (null when there is none) */
+async function loadBulkPlan(context: JobContext, owner: string): Promise<FlairBulkPlan | null> {
+	const stored = await getStoredPlan(context, owner);
+	if (!stored) return null;
+	const { userCount, proposedBy: _proposedBy, proposedAt: _proposedAt, ...plan } = stored;
+	const users: string[] = [];
+	for (let shard = 0; shard * BULK_USER_SHARD_SIZE < userCount; shard++) users.push(...(await readBulkUserShard(context, `plan:${owner}`, shard)));
+	const userTemplates = plan.mode === "reset" ? await context.redis.hGetAll(bulkTemplatesKey(`plan:${owner}`)) : undefined;
+	return { ...plan, users, userTemplates };
+}
+
+async function clearBulkPlan(context: JobContext, owner: string) {
+	const stored = await getStoredPlan(context, owner);
+	if (stored) await deleteBulkUsers(context, `plan:${owner}`, stored.userCount);
+	await safeKVDelete(context, BULK_PLAN_KEY_PREFIX + owner);
+}
+
+/* clearBulkState: forget a finished run (a running one is left alone) */
+async function clearBulkState(context: JobContext) {
+	const state = await getBulkState(context);
+	if (!state?.finishedAt) return;
+	await deleteBulkUsers(context, `run:${state.runId}`, state.userCount);
+	await context.redis.del(BULK_STATE_KEY);
+}
+
+/* ---------- Part 2: Resumable bulk job ---------- */
+
+/*
+ * Works through the stored users from the nextIndex checkpoint until the time budget runs out, then re-queues itself.
+ * The stored scan result is updated every BULK_CHECKPOINT_EVERY users, together with the checkpoint.
+ */
+Devvit.addSchedulerJob({
+	name: BULK_JOB_NAME,
+	onRun: async (_, context) => {
+		const state = await getBulkState(context);
+		if (!isRunning(state)) return;
+		const slot: BulkSlot = `run:${state.runId}`;
+
+		const { devvitExecutionTimeoutSeconds } = await getAppSettings(context);
+		const subredditName = await context.reddit.getCurrentSubredditName();
+		const chunkStart = startTimer();
+		let pending: UserFlairChange[] = [];
+
+		const checkpoint = async () => {
+			await applyUserFlairChanges(context, pending);
+			pending = [];
+			// a mod may have stopped the run while this chunk was working; the stop is kept in the same transaction
+			await updateBulkState(context, (latest) => {
+				if (latest?.runId !== state.runId) return null;
+				if (latest.stopped) {
+					state.stopped = true;
+					state.finishedAt = latest.finishedAt ?? Date.now();
+				}
+				return state;
+			});
+		};
+
+		let shardIndex = -1;
+		let shard: string[] = [];
+		let currentClasses: Record<string, string | undefined> = {};
+		while (state.nextIndex < state.userCount && !state.stopped) {
+			if (!isTimeRemaining(chunkStart, devvitExecutionTimeoutSeconds)) break;
+
+			if (Math.floor(state.nextIndex / BULK_USER_SHARD_SIZE) !== shardIndex) {
+				shardIndex = Math.floor(state.nextIndex / BULK_USER_SHARD_SIZE);
+				shard = await readBulkUserShard(context, slot, shardIndex);
+				// "set" without a new class keeps each user's class, as the last scan recorded it
+				if (state.mode === "set" && !state.cssClass) {
+					const records = await readUserFlairs(context, "result", shard);
+					currentClasses = Object.fromEntries(shard.map((u) => [u, records[u]?.cssClass]));
+				}
+			}
+			const username = shard[state.nextIndex % BULK_USER_SHARD_SIZE];
+			try {
+				const resetTemplateId = state.mode === "reset" ? await context.redis.hGet(bulkTemplatesKey(slot), username) : undefined;
+				if (state.mode === "reset" && resetTemplateId) {
+					// setting only the template puts the flair back to the template's default text
+					await context.reddit.setUserFlair({ subredditName, username, flairTemplateId: resetTemplateId });
+					pending.push({ username, flairText: state.templateTexts?.[resetTemplateId] ?? null, cssClass: null, templateId: resetTemplateId });
+				} else if (state.mode !== "set") {
+					await context.reddit.removeUserFlair(subredditName, username);
+					pending.push({ username, flairText: null, cssClass: null, templateId: null });
+				} else {
+					const cssClass = state.cssClass || currentClasses[username];
+					await context.reddit.setUserFlair({ subredditName, username, flairTemplateId: state.templateId ?? undefined, cssClass });
+					pending.push({ username, flairText: state.templateText, cssClass: cssClass ?? null, templateId: state.templateId });
+				}
+				state.changed++;
+			} catch (err) {
+				console.error(`Bulk flair change failed for u/${username}:`, err);
+				state.failedCount++;
+				if (state.failed.length < FAILED_SAMPLE_SIZE) state.failed.push(username);
+			}
+			state.nextIndex++;
+
+			if (state.nextIndex % BULK_CHECKPOINT_EVERY === 0) await checkpoint();
+			await sleep(SLEEP_BETWEEN_USERS_MS);
+		}
+
+		if (state.nextIndex >= state.userCount || state.stopped) state.finishedAt = Date.now();
+		await checkpoint();
+
+		if (!state.finishedAt) {
+			await context.scheduler.runJob({ name: BULK_JOB_NAME, runAt: new Date(Date.now() + 2000) });
+		} else {
+			console.log(`Bulk flair change finished: ${state.changed} changed, ${state.failedCount} failed${state.stopped ? " (stopped)" : ""}`);
+			await recordFlairAudit(context, {
+				user: state.startedBy,
+				action: "bulk flair change finished",
+				outcome: state.failedCount > 0 ? "failed" : "ok",
+				detail: `${state.label ?? `"${state.sourceFlair}"`}: ${state.changed} changed, ${state.failedCount} failed${state.stopped ? ", stopped" : ""}`,
+			});
+		}
+	},
+});
+
+/* beginBulkChange: queue the job for `plan` and drop `planOwner`'s stored plan; false when another bulk change is still running */
+async function beginBulkChange(context: JobContext, plan: FlairBulkPlan, startedBy: string, planOwner?: string): Promise<boolean> {
+	if (isRunning(await getBulkState(context))) return false;
+	const startedAt = Date.now();
+	const runId = `${startedAt}-${Math.random().toString(36).slice(2, 8)}`;
+	const state: FlairBulkState = {
+		...(await writeBulkUsers(context, `run:${runId}`, plan)),
+		runId,
+		nextIndex: 0,
+		changed: 0,
+		failedCount: 0,
+		failed: [],
+		startedBy,
+		startedAt,
+	};
+	// two mods applying at once: only one replaces the finished run
+	const replaced: { state: FlairBulkState | null } = { state: null };
+	const started = await updateBulkState(context, (latest) => {
+		replaced.state = latest;
+		return isRunning(latest) ? null : state;
+	});
+	if (!started) {
+		await deleteBulkUsers(context, `run:${runId}`, state.userCount);
+		return false;
+	}
+	if (replaced.state?.runId) await deleteBulkUsers(context, `run:${replaced.state.runId}`, replaced.state.userCount);
+	if (planOwner) await clearBulkPlan(context, planOwner);
+	await context.scheduler.runJob({ name: BULK_JOB_NAME, runAt: new Date() });
+	await recordFlairAudit(context, { user: startedBy, action: "start bulk flair change", outcome: "ok", detail: describePlan(state).replace("\n", ", ") });
+	return true;
+}
+
+async function startBulkChange(context: Devvit.Context, plan: FlairBulkPlan, planOwner?: string) {
+	if (!(await requireFlairPermission(context, "manage", "make bulk flair changes"))) return;
+	if (!(await beginBulkChange(context, plan, (await context.reddit.getCurrentUsername()) ?? "unknown", planOwner))) {
+		context.ui.showToast("Another bulk flair change is still running.");
+		return;
+	}
+	context.ui.showToast(`Bulk flair change started for ${formatNumberWithCommas(plan.users.length)} users`);
+}
+
+/* ---------- Part 3: Forms ---------- */
+
+const bulkSetupForm = Devvit.createForm(
+	(data) => ({
+		title: "Bulk Reassign or Clear Flair",
+		acceptLabel: "Continue",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "sourceFlair",
+				type: "select",
+				label: "Flair group",
+				options: data.flairOptions,
+				defaultValue: [],
+				multiSelect: false,
+				required: true,
+			},
+			{
+				name: "mode",
+				type: "select",
+				label: "Action",
+				options: [
+					{ label: "Set to a flair template", value: "set" },
+					{ label: "Clear flair", value: "clear" },
+				],
+				defaultValue: ["set"],
+				multiSelect: false,
+				required: true,
+			},
+			{
+				name: "template",
+				type: "select",
+				label: "Flair template (for Set)",
+				options: data.templateOptions,
+				defaultValue: [],
+				multiSelect: false,
+			},
+			{
+				name: "cssClass",
+				type: "string",
+				label: "CSS class (for Set)",
+				helpText: "Leave empty to keep each user's current CSS class",
+			},
+			{
+				name: "dryRun",
+				type: "boolean",
+				label: "Dry run (preview affected users first)",
+				defaultValue: true,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		try {
+			const sourceFlair = values.sourceFlair?.[0];
+			const mode = values.mode?.[0] === "clear" ? "clear" : "set";
+			const templateId = values.template?.[0] ?? null;
+			if (!sourceFlair) {
+				context.ui.showToast("Pick a flair group.");
+				return;
+			}
+			if (mode === "set" && !templateId) {
+				context.ui.showToast("Pick a flair template to set.");
+				return;
+			}
+
+			const users = await readFlairGroup(context, "result", sourceFlair);
+			if (users.length === 0) {
+				context.ui.showToast(`No users currently have "${sourceFlair}".`);
+				return;
+			}
+
+			let templateText: string | null = null;
+			if (mode === "set") {
+				const subredditName = await context.reddit.getCurrentSubredditName();
+				const template = (await context.reddit.getUserFlairTemplates(subredditName)).find((t) => t.id === templateId);
+				if (!template) {
+					context.ui.showToast("That flair template no longer exists.");
+					return;
+				}
+				templateText = template.text;
+			}
+
+			const cssClass = mode === "set" ? values.cssClass?.trim() || undefined : undefined;
+			const plan: FlairBulkPlan = { sourceFlair, mode, templateId: mode === "set" ? templateId : null, templateText, cssClass, users };
+			if (!values.dryRun) {
+				await startBulkChange(context, plan);
+				return;
+			}
+
+			await previewBulkChange(context, plan);
+		} catch (error) {
+			console.error("Error preparing bulk flair change:", error);
+			context.ui.showToast("Error preparing bulk flair change (" + error + ")");
+		}
+	}
+);
+
+/* storeBulkPlan: replace `owner`'s plan waiting to be applied (users go to Redis, the rest to KV) */
+async function storeBulkPlan(context: JobContext, owner: string, plan: FlairBulkPlan, proposedBy?: string): Promise<StoredBulkPlan> {
+	await clearBulkPlan(context, owner);
+	const stored: StoredBulkPlan = { ...(await writeBulkUsers(context, `plan:${owner}`, plan)), ...(proposedBy ? { proposedBy, proposedAt: Date.now() } : {}) };
+	await safeKVWrite(context, BULK_PLAN_KEY_PREFIX + owner, stored);
+	return stored;
+}
+
+function formatPlanPreview(plan: StoredBulkPlan, users: string[]): string {
+	const proposal = plan.proposedBy ? `Proposed by ${plan.proposedBy} on ${new Date(plan.proposedAt ?? 0).toLocaleString()}\n` : "";
+	const sample = users.slice(0, PREVIEW_USER_COUNT).map((u) => `• u/${u}`).join("\n");
+	const more = plan.userCount > PREVIEW_USER_COUNT ? `\n…and ${formatNumberWithCommas(plan.userCount - PREVIEW_USER_COUNT)} more` : "";
+	return `${proposal}${describePlan(plan)}\n\n${sample}${more}`;
+}
+
+/* previewBulkChange: store the plan and show the dry-run preview; nothing changes until the mod applies it */
+export async function previewBulkChange(context: Devvit.Context, plan: FlairBulkPlan) {
+	const stored = await storeBulkPlan(context, await modPlanOwner(context), plan);
+	context.ui.showForm(bulkPreviewForm, { preview: formatPlanPreview(stored, plan.users) });
+}
+
+/**
+ * proposeBulkChange
+ * - for background jobs: stores the plan like a dry run, without starting it (a newer proposal replaces an older one)
+ * - a mod applies or discards it from "Bulk reassign or clear a flair group", which shows this plan first
+ */
+export async function proposeBulkChange(context: JobContext, plan: FlairBulkPlan, proposedBy: string) {
+	await storeBulkPlan(context, PROPOSAL_PLAN_OWNER, plan, proposedBy);
+}
+
+/* applyStoredPlan: start `owner`'s stored plan, if it is still there and nothing else is running */
+async function applyStoredPlan(context: Devvit.Context, owner: string) {
+	const plan = await loadBulkPlan(context, owner);
+	if (!plan) {
+		context.ui.showToast("The dry run expired. Start again.");
+		return;
+	}
+	if (isRunning(await getBulkState(context))) {
+		context.ui.showToast("Another bulk flair change is still running.");
+		return;
+	}
+	await startBulkChange(context, plan, owner);
+}
+
+const bulkPreviewForm = Devvit.createForm(
+	(data) => ({
+		title: "Dry Run — Bulk Flair Change",
+		acceptLabel: "Apply Changes",
+		cancelLabel: "Cancel",
+		fields: [
+			{
+				name: "preview",
+				type: "paragraph",
+				label: "Nothing has been changed yet",
+				defaultValue: data.preview,
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async (_, context) => {
+		await applyStoredPlan(context, await modPlanOwner(context));
+	}
+);
+
+const bulkProposalForm = Devvit.createForm(
+	(data) => ({
+		title: "Proposed Bulk Flair Change",
+		acceptLabel: "Continue",
+		cancelLabel: "Decide Later",
+		fields: [
+			{
+				name: "preview",
+				type: "paragraph",
+				label: "Nothing has been changed yet",
+				defaultValue: data.preview,
+				disabled: true,
+				lineHeight: 10,
+			},
+			{
+				name: "decision",
+				type: "select",
+				label: "Then",
+				options: [
+					{ label: "Apply these changes", value: "apply" },
+					{ label: "Discard this proposal", value: "discard" },
+				],
+				defaultValue: ["apply"],
+				multiSelect: false,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		if (values.decision?.[0] === "discard") {
+			if (!(await requireFlairPermission(context, "manage", "discard a proposed bulk flair change"))) return;
+			await clearBulkPlan(context, PROPOSAL_PLAN_OWNER);
+			await recordFlairAudit(context, { action: "discard proposed bulk flair change", outcome: "ok" });
+			context.ui.showToast("Proposed bulk flair change discarded");
+			return;
+		}
+		await applyStoredPlan(context, PROPOSAL_PLAN_OWNER);
+	}
+);
+
+const bulkStatusForm = Devvit.createForm(
+	(data) => ({
+		title: "Bulk Flair Change",
+		acceptLabel: data.running ? "Refresh" : "New Bulk Change",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "status",
+				type: "paragraph",
+				label: "Progress",
+				defaultValue: data.status,
+				disabled: true,
+				lineHeight: 8,
+			},
+			...(data.running ? [{ name: "stop", type: "boolean" as const, label: "Stop bulk change" }] : []),
+		],
+	}),
+	async ({ values }, context) => {
+		const state = await getBulkState(context);
+		if (isRunning(state) && values.stop) {
+			if (!(await requireFlairPermission(context, "manage", "stop a bulk flair change"))) return;
+			await updateBulkState(context, (latest) => (isRunning(latest) ? { ...latest, stopped: true, finishedAt: Date.now() } : null));
+			await recordFlairAudit(context, { action: "stop bulk flair change", outcome: "ok" });
+			context.ui.showToast("Bulk flair change will stop after the current user.");
+			return;
+		}
+		if (isRunning(state)) {
+			context.ui.showForm(bulkStatusForm, { running: true, status: describeState(state) });
+			return;
+		}
+		await clearBulkState(context);
+		await showBulkSetupForm(context);
+	}
+);
+
+async function showBulkSetupForm(context: Devvit.Context) {
+	const flairCounts = await readFlairCounts(context, "result");
+	if (Object.keys(flairCounts).length === 0) {
+		context.ui.showToast("No completed scan with flair groups yet.");
+		return;
+	}
+	const flairOptions = Object.entries(flairCounts)
+		.sort(([, a], [, b]) => b - a)
+		.map(([flair, count]) => ({ label: `${flair} (${formatNumberWithCommas(count)})`, value: flair }));
+	const subredditName = await context.reddit.getCurrentSubredditName();
+	const templateOptions = (await context.reddit.getUserFlairTemplates(subredditName)).map((t) => ({
+		label: t.text || `(template ${t.id})`,
+		value: t.id,
+	}));
+	context.ui.showForm(bulkSetupForm, { flairOptions, templateOptions });
+}
+
+registerFlairFormAction({
+	value: "bulkChange",
+	label: "Bulk reassign or clear a flair group",
+	permission: "manage",
+	run: async (context) => {
+		const state = await getBulkState(context);
+		const proposed = isRunning(state) ? null : await getStoredPlan(context, PROPOSAL_PLAN_OWNER);
+		if (proposed) {
+			const sample = await readBulkUserShard(context, `plan:${PROPOSAL_PLAN_OWNER}`, 0);
+			context.ui.showForm(bulkProposalForm, { preview: formatPlanPreview(proposed, sample) });
+			return;
+		}
+		if (state) {
+			context.ui.showForm(bulkStatusForm, { running: isRunning(state), status: describeState(state) });
+			return;
+		}
+		await showBulkSetupForm(context);
+	},
+});
@@ -0,0 +1,194 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { readFlairCounts, readManifest } from "./FlairScanStore.js";
+import { recordFlairAudit } from "./FlairPermissions.js";
+import { escapeMarkdown, MAX_POST_CHARACTER_COUNT } from "./RedditUtils.js";
+import {
+	formatNumberWithCommas,
+	isNoTextFlairGroup,
+	registerFlairFormAction,
+	registerScanCompletedHandler,
+	safeKVWrite,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/*
+ * The census is built from per-flair counts only (flairScan:result:counts); user lists are never read,
+ * so no username can end up in the post.
+ */
+
+const CENSUS_POST_ID_KEY = "flairCensusPostId";
+const CENSUS_POST_TITLE = "User Flair Census";
+
+/* ---------- Part 1: Include/exclude lists ---------- */
+
+export type FlairMatcher = (flair: string) => boolean;
+
+/**
+ * parseFlairPatterns
+ * - one flair per line, matched case-insensitively against the whole flair text
+ * - or `/pattern/flags` for a regular expression
+ * - blank lines and lines starting with # are ignored
+ */
+export function parseFlairPatterns(text: string): { matchers: FlairMatcher[]; errors: string[] } {
+	const matchers: FlairMatcher[] = [];
+	const errors: string[] = [];
+	for (const [i, rawLine] of (text ?? "").split("\n").entries()) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+		const literal = /^\/(.+)\/([a-z]*)$/.exec(line);
+		if (!literal) {
+			const wanted = line.toLocaleLowerCase();
+			matchers.push((flair) => flair.trim().toLocaleLowerCase() === wanted);
+			continue;
+		}
+		try {
+			const pattern = new RegExp(literal[1], literal[2].replace("g", ""));
+			matchers.push((flair) => pattern.test(flair));
+		} catch (err) {
+			errors.push(`Line ${i + 1}: ${err instanceof Error ? err.message : err}`);
+		}
+	}
+	return { matchers, errors };
+}
+
+/* ---------- Part 2: Census markdown ---------- */
+
+export interface FlairCensusOptions {
+	include: FlairMatcher[]; // empty = every flair
+	exclude: FlairMatcher[];
+	minGroupSize: number;
+}
+
+/**
+ * buildCensusMarkdown
+ * - flairs filtered by the include/exclude lists; (no text) groups are never listed
+ * - groups under minGroupSize are folded into one "Other" row, itself only shown once it reaches minGroupSize
+ * - percentages are of the members shown, so hidden groups can't be worked out from the totals
+ */
+export function buildCensusMarkdown(counts: Record<string, number>, scannedAt: number, options: FlairCensusOptions): string {
+	const listed = Object.entries(counts).filter(
+		([flair]) =>
+			!isNoTextFlairGroup(flair) && (options.include.length === 0 || options.include.some((m) => m(flair))) && !options.exclude.some((m) => m(flair))
+	);
+	const shown = listed.filter(([, count]) => count >= options.minGroupSize).sort(([, a], [, b]) => b - a);
+	const small = listed.filter(([, count]) => count < options.minGroupSize);
+	const otherCount = small.reduce((sum, [, count]) => sum + count, 0);
+	const showOther = small.length > 0 && otherCount >= options.minGroupSize;
+	const total = shown.reduce((sum, [, count]) => sum + count, 0) + (showOther ? otherCount : 0);
+
+	const percent = (count: number) => (total > 0 ? `${((count / total) * 100).toFixed(1)}%` : "–");
+	const scannedOn = new Date(scannedAt).toISOString().slice(0, 10);
+	const intro = `Members per user flair as of ${scannedOn}: ${formatNumberWithCommas(total)} members across ${formatNumberWithCommas(shown.length)} flairs.\n\n`;
+	const footer =
+		`\n\n^(Counts only, no usernames. Flairs held by fewer than ${formatNumberWithCommas(options.minGroupSize)} members are ` +
+		`${showOther ? "combined under Other" : "not listed"}. Updated after each flair scan.)`;
+	if (total === 0) return `${intro}No flair groups are large enough to list yet.${footer}`;
+
+	const header = "| Flair | Members | Share |\n|:--|--:|--:|";
+	const otherRow = showOther ? `| *Other (${formatNumberWithCommas(small.length)} smaller flairs)* | ${formatNumberWithCommas(otherCount)} | ${percent(otherCount)} |` : "";
+	const budget = MAX_POST_CHARACTER_COUNT - intro.length - footer.length - header.length - otherRow.length - 200;
+	const rows: string[] = [];
+	let length = 0;
+	for (const [flair, count] of shown) {
+		const row = `| ${escapeMarkdown(flair)} | ${formatNumberWithCommas(count)} | ${percent(count)} |`;
+		if (length + row.length + 1 > budget) {
+			rows.push(`| …and ${formatNumberWithCommas(shown.length - rows.length)} more flairs | | |`);
+			break;
+		}
+		rows.push(row);
+		length += row.length + 1;
+	}
+	if (otherRow) rows.push(otherRow);
+	return `${intro}${header}\n${rows.join("\n")}${footer}`;
+}
+
+async function getCensusOptions(context: JobContext): Promise<FlairCensusOptions> {
+	const { flairCensusInclude, flairCensusExclude, flairCensusMinGroupSize } = await getAppSettings(context);
+	return {
+		include: parseFlairPatterns(flairCensusInclude).matchers,
+		exclude: parseFlairPatterns(flairCensusExclude).matchers,
+		minGroupSize: Math.max(1, flairCensusMinGroupSize),
+	};
+}
+
+/* ---------- Part 3: Publishing ---------- */
+
+/**
+ * publishFlairCensus
+ * - edits the existing census post, or submits (and optionally pins) a new one when there is none
+ *   or it was deleted or removed
+ * - returns the post id, or null when there is no completed scan
+ */
+export async function publishFlairCensus(context: JobContext): Promise<string | null> {
+	const manifest = await readManifest(context, "result");
+	if (!manifest) return null;
+	const text = buildCensusMarkdown(await readFlairCounts(context, "result"), manifest.timestamp, await getCensusOptions(context));
+
+	const postId = (await context.kvStore.get(CENSUS_POST_ID_KEY)) as string | undefined;
+	if (postId) {
+		try {
+			const post = await context.reddit.getPostById(postId);
+			if (!post.removed && post.authorName !== "[deleted]") {
+				await post.edit({ text });
+				console.log(`Updated flair census post ${postId}`);
+				return postId;
+			}
+		} catch (err) {
+			console.warn(`Flair census post ${postId} is gone; submitting a new one:`, err);
+		}
+	}
+
+	const { flairCensusSticky } = await getAppSettings(context);
+	const subredditName = await context.reddit.getCurrentSubredditName();
+	const post = await context.reddit.submitPost({ subredditName, title: CENSUS_POST_TITLE, text });
+	if (flairCensusSticky) {
+		try {
+			await post.sticky();
+		} catch (err) {
+			// both sticky slots may be taken
+			console.warn("Could not pin the flair census post:", err);
+		}
+	}
+	await safeKVWrite(context, CENSUS_POST_ID_KEY, post.id);
+	console.log(`Submitted flair census post ${post.id}`);
+	return post.id;
+}
+
+registerScanCompletedHandler("census", async (context) => {
+	const { flairCensusEnabled } = await getAppSettings(context);
+	if (!flairCensusEnabled) return;
+	const postId = await publishFlairCensus(context);
+	await recordFlairAudit(context, { user: "scheduler", action: "refresh census post", outcome: "ok", detail: postId ?? undefined });
+});
+
+registerFlairFormAction({
+	value: "publishCensus",
+	label: "Publish or refresh the public flair census post",
+	permission: "export",
+	run: async (context) => {
+		const { flairCensusEnabled } = await getAppSettings(context);
+		if (!flairCensusEnabled) {
+			context.ui.showToast("Turn on the public flair census in the app settings first.");
+			return;
+		}
+		try {
+			const postId = await publishFlairCensus(context);
+			if (!postId) {
+				context.ui.showToast("No completed scan to publish yet.");
+				return;
+			}
+			await recordFlairAudit(context, { action: "publish census post", outcome: "ok", detail: postId });
+			context.ui.showToast("Flair census post published");
+			context.ui.navigateTo(await context.reddit.getPostById(postId));
+		} catch (error) {
+			console.error("Error publishing flair census post:", error);
+			await recordFlairAudit(context, { action: "publish census post", outcome: "failed", detail: String(error) });
+			context.ui.showToast("Error publishing census post (" + error + ")");
+		}
+	},
+});
@@ -0,0 +1,405 @@
+import { Devvit, JobContext, useAsync, useForm, useInterval, useState } from "@devvit/public-api";
+import { readFlairCounts, readFlairGroup } from "./FlairScanStore.js";
+import { hasFlairPermission, recordFlairAudit, requireFlairPermission } from "./FlairPermissions.js";
+import { formatRedditUrl, isCurrentUserModerator } from "./RedditUtils.js";
+import {
+	cancelFlairScan,
+	formatDuration,
+	formatNumberWithCommas,
+	getFlairScanStatus,
+	resumeStalledScan,
+	startOrRetryScan,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Data loading ---------- */
+
+type DashboardSort = "countDesc" | "countAsc" | "name";
+
+type DashboardRow = {
+	flair: string;
+	count: number;
+	percent: number; // of counted users
+	bar: number; // width relative to the largest flair shown, 0–100
+};
+
+type DashboardData = {
+	scanRunning: boolean;
+	failedScan: boolean;
+	stalled: boolean;
+	statusLine: string;
+	progressLine: string;
+	hasResult: boolean;
+	totalUsers: number;
+	totalFlairs: number;
+	matchingFlairs: number;
+	rows: DashboardRow[];
+	pageCount: number;
+};
+
+type DashboardUsers = {
+	users: string[];
+	total: number;
+};
+
+const POLL_INTERVAL_MS = 3000; // live progress refresh while a scan runs
+const FLAIR_ROWS_PER_PAGE = 9;
+const USERS_PER_PAGE = 20;
+const USER_COLUMNS = 2;
+
+const SORT_LABELS: Record<DashboardSort, string> = {
+	countDesc: "Most users",
+	countAsc: "Fewest users",
+	name: "Name A–Z",
+};
+const NEXT_SORT: Record<DashboardSort, DashboardSort> = { countDesc: "countAsc", countAsc: "name", name: "countDesc" };
+
+function sortFlairCounts(entries: [string, number][], sort: DashboardSort): [string, number][] {
+	if (sort === "name") return entries.sort(([a], [b]) => a.localeCompare(b, undefined, { sensitivity: "base" }));
+	return entries.sort(([, a], [, b]) => (sort === "countAsc" ? a - b : b - a));
+}
+
+/* loadDashboard: status and one page of the (filtered, sorted) flair table; manifests and counts only */
+async function loadDashboard(context: JobContext, sort: DashboardSort, search: string, page: number): Promise<DashboardData> {
+	const status = await getFlairScanStatus(context);
+	const counts = status.full ? await readFlairCounts(context, "result") : {};
+	const totalUsers = status.full?.scannedUsers ?? 0;
+
+	const query = search.trim().toLocaleLowerCase();
+	const matching = sortFlairCounts(
+		Object.entries(counts).filter(([flair]) => !query || flair.toLocaleLowerCase().includes(query)),
+		sort
+	);
+	const pageCount = Math.max(1, Math.ceil(matching.length / FLAIR_ROWS_PER_PAGE));
+	const pageEntries = matching.slice(page * FLAIR_ROWS_PER_PAGE, (page + 1) * FLAIR_ROWS_PER_PAGE);
+	const largest = Math.max(1, ...Object.values(counts));
+
+	let statusLine: string;
+	if (status.scanRunning) statusLine = status.stalled ? "⚠️ Scan stalled" : "🟡 Scan in progress";
+	else if (status.failedScan) statusLine = `❌ Scan failed: ${status.failedMessage ?? "Unknown error"}`;
+	else if (status.full) statusLine = `🟢 Last scan ${formatDuration(Date.now() - status.full.timestamp)} ago`;
+	else statusLine = "⚪️ No scan yet";
+
+	let progressLine = "";
+	if (status.scanRunning && status.partial) {
+		const heartbeat = status.heartbeat ? `, last heartbeat ${formatDuration(Date.now() - status.heartbeat)} ago` : "";
+		progressLine =
+			`⏱️ ${formatDuration(Date.now() - status.partial.timestamp)}: ${formatNumberWithCommas(status.partial.seenUsers ?? status.partial.scannedUsers)} users, ` +
+			`page ${status.partial.lastPageNumber ?? 0}${heartbeat}`;
+	}
+
+	return {
+		scanRunning: status.scanRunning,
+		failedScan: status.failedScan,
+		stalled: status.stalled,
+		statusLine,
+		progressLine,
+		hasResult: !!status.full,
+		totalUsers,
+		totalFlairs: Object.keys(counts).length,
+		matchingFlairs: matching.length,
+		rows: pageEntries.map(([flair, count]) => ({
+			flair,
+			count,
+			percent: totalUsers > 0 ? (count / totalUsers) * 100 : 0,
+			bar: Math.max(1, Math.round((count / largest) * 100)),
+		})),
+		pageCount,
+	};
+}
+
+async function loadFlairUsers(context: JobContext, flair: string, page: number): Promise<DashboardUsers> {
+	const users = await readFlairGroup(context, "result", flair);
+	return { users: users.slice(page * USERS_PER_PAGE, (page + 1) * USERS_PER_PAGE), total: users.length };
+}
+
+/* ---------- Part 2: Blocks ---------- */
+
+function formatPercent(percent: number): string {
+	return percent >= 10 ? `${percent.toFixed(0)}%` : `${percent.toFixed(1)}%`;
+}
+
+function Notice(props: { title: string; text: string }): JSX.Element {
+	return (
+		<vstack height="100%" width="100%" alignment="center middle" padding="large" gap="small">
+			<text size="xlarge" weight="bold">
+				{props.title}
+			</text>
+			<text size="medium" color="neutral-content-weak" alignment="center" wrap>
+				{props.text}
+			</text>
+		</vstack>
+	);
+}
+
+function FlairRow(props: { row: DashboardRow; onPress: () => void }): JSX.Element {
+	const { row } = props;
+	return (
+		<hstack width="100%" gap="small" alignment="start middle" padding="xsmall" cornerRadius="small" onPress={props.onPress}>
+			<text width="40%" size="small" overflow="ellipsis">
+				{row.flair}
+			</text>
+			<text width="14%" size="small" alignment="end">
+				{formatNumberWithCommas(row.count)}
+			</text>
+			<text width="10%" size="small" color="neutral-content-weak" alignment="end">
+				{formatPercent(row.percent)}
+			</text>
+			<hstack width="30%" height="12px" backgroundColor="neutral-background-weak" cornerRadius="small">
+				<hstack width={`${row.bar}%`} height="100%" backgroundColor="#0079D3" cornerRadius="small" />
+			</hstack>
+		</hstack>
+	);
+}
+
+/* ---------- Part 3: Custom post ---------- */
+
+Devvit.addCustomPostType({
+	name: "Flair Fax Dashboard",
+	description: "Mod-only user flair breakdown with scan controls",
+	height: "tall",
+	render: (context) => {
+		const [refresh, setRefresh] = useState(0);
+		const [sort, setSort] = useState<DashboardSort>("countDesc");
+		const [search, setSearch] = useState("");
+		const [page, setPage] = useState(0);
+		const [selectedFlair, setSelectedFlair] = useState("");
+		const [userPage, setUserPage] = useState(0);
+		const [confirmCancel, setConfirmCancel] = useState(false);
+
+		// non-mods get a notice only: no counts or usernames are loaded for them
+		const access = useAsync(async () => {
+			if (!(await isCurrentUserModerator(context))) return "notMod";
+			return (await hasFlairPermission(context, "view")) ? "allowed" : "noPermission";
+		});
+		const allowed = access.data === "allowed";
+
+		const dashboard = useAsync<DashboardData | null>(async () => (allowed ? await loadDashboard(context, sort, search, page) : null), {
+			depends: [allowed, refresh, sort, search, page],
+		});
+		const flairUsers = useAsync<DashboardUsers | null>(
+			async () => (allowed && selectedFlair ? await loadFlairUsers(context, selectedFlair, userPage) : null),
+			{ depends: [allowed, selectedFlair, userPage, refresh] }
+		);
+
+		const poller = useInterval(() => setRefresh((n) => n + 1), POLL_INTERVAL_MS);
+		if (dashboard.data?.scanRunning) poller.start();
+		else poller.stop();
+
+		const searchForm = useForm(
+			{
+				title: "Search Flairs",
+				acceptLabel: "Search",
+				fields: [{ name: "query", type: "string", label: "Flair text contains (leave empty to show all)", defaultValue: search }],
+			},
+			(values) => {
+				setSearch(values.query ?? "");
+				setPage(0);
+			}
+		);
+
+		if (access.loading) return <Notice title="Flair Fax Dashboard" text="Loading…" />;
+		if (access.data === "noPermission") return <Notice title="Flair Fax Dashboard" text="Your mod permissions don't include viewing User Flairs." />;
+		if (!allowed) return <Notice title="Flair Fax Dashboard" text="This dashboard is restricted to the subreddit's moderators." />;
+
+		const data = dashboard.data;
+		if (!data) return <Notice title="Flair Fax Dashboard" text={dashboard.error ? `Could not load: ${dashboard.error.message}` : "Loading…"} />;
+
+		const runAction = async (action: () => Promise<boolean>) => {
+			try {
+				await action();
+			} catch (err) {
+				console.error("Flair dashboard action failed:", err);
+				context.ui.showToast("Action failed (" + err + ")");
+			}
+			setConfirmCancel(false);
+			setRefresh((n) => n + 1);
+		};
+
+		const controls = (
+			<hstack gap="small" alignment="start middle">
+				{!data.scanRunning && (
+					<button size="small" appearance="primary" onPress={() => runAction(() => startOrRetryScan(context))}>
+						{data.failedScan ? "Retry Scan" : data.hasResult ? "Rescan" : "Start Scan"}
+					</button>
+				)}
+				{data.stalled && (
+					<button size="small" appearance="primary" onPress={() => runAction(() => resumeStalledScan(context))}>
+						Continue Scan
+					</button>
+				)}
+				{data.scanRunning &&
+					(confirmCancel ? (
+						<button size="small" appearance="destructive" onPress={() => runAction(() => cancelFlairScan(context))}>
+							Confirm: cancel and clear
+						</button>
+					) : (
+						<button size="small" appearance="secondary" onPress={() => setConfirmCancel(true)}>
+							Cancel Scan
+						</button>
+					))}
+				<button size="small" appearance="plain" icon="refresh" onPress={() => setRefresh((n) => n + 1)} />
+			</hstack>
+		);
+
+		const header = (
+			<vstack gap="small" width="100%">
+				<hstack width="100%" alignment="start middle">
+					<text size="large" weight="bold">
+						Flair Fax Dashboard
+					</text>
+					<spacer grow />
+					{controls}
+				</hstack>
+				<text size="small" wrap>
+					{data.statusLine}
+				</text>
+				{data.progressLine ? (
+					<text size="small" color="neutral-content-weak">
+						{data.progressLine}
+					</text>
+				) : null}
+			</vstack>
+		);
+
+		// user list for one flair
+		if (selectedFlair) {
+			const list = flairUsers.data;
+			const total = list?.total ?? 0;
+			const pageCount = Math.max(1, Math.ceil(total / USERS_PER_PAGE));
+			const perColumn = Math.ceil(USERS_PER_PAGE / USER_COLUMNS);
+			const columns = Array.from({ length: USER_COLUMNS }, (_, i) => (list?.users ?? []).slice(i * perColumn, (i + 1) * perColumn));
+			return (
+				<vstack height="100%" width="100%" padding="medium" gap="small">
+					{header}
+					<hstack width="100%" alignment="start middle" gap="small">
+						<button size="small" appearance="secondary" icon="back" onPress={() => setSelectedFlair("")} />
+						<text size="medium" weight="bold" overflow="ellipsis" grow>
+							{selectedFlair} — {formatNumberWithCommas(total)} user{total === 1 ? "" : "s"}
+						</text>
+					</hstack>
+					<hstack width="100%" grow gap="medium">
+						{columns.map((users) => (
+							<vstack width={`${Math.floor(100 / USER_COLUMNS)}%`} gap="small">
+								{users.map((username) => (
+									<text size="small" overflow="ellipsis" onPress={() => context.ui.navigateTo(formatRedditUrl(context, "https://www.reddit.com/user/" + username + "/"))}>
+										u/{username}
+									</text>
+								))}
+							</vstack>
+						))}
+					</hstack>
+					<hstack width="100%" alignment="center middle" gap="small">
+						<button size="small" disabled={userPage === 0} onPress={() => setUserPage(userPage - 1)}>
+							Previous
+						</button>
+						<text size="small">
+							Page {userPage + 1} of {pageCount}
+						</text>
+						<button size="small" disabled={userPage + 1 >= pageCount} onPress={() => setUserPage(userPage + 1)}>
+							Next
+						</button>
+					</hstack>
+				</vstack>
+			);
+		}
+
+		// flair table
+		return (
+			<vstack height="100%" width="100%" padding="medium" gap="small">
+				{header}
+				{data.hasResult ? (
+					<vstack width="100%" grow gap="small">
+						<hstack width="100%" alignment="start middle" gap="small">
+							<text size="small" color="neutral-content-weak" grow>
+								{formatNumberWithCommas(data.totalUsers)} users in {formatNumberWithCommas(data.totalFlairs)} flairs
+								{search ? ` · ${formatNumberWithCommas(data.matchingFlairs)} matching "${search}"` : ""}
+							</text>
+							<button size="small" appearance="bordered" icon="search" onPress={() => context.ui.showForm(searchForm)}>
+								{search ? "Change search" : "Search"}
+							</button>
+							{search ? (
+								<button
+									size="small"
+									appearance="plain"
+									icon="close"
+									onPress={() => {
+										setSearch("");
+										setPage(0);
+									}}
+								/>
+							) : null}
+							<button
+								size="small"
+								appearance="bordered"
+								onPress={() => {
+									setSort(NEXT_SORT[sort]);
+									setPage(0);
+								}}
+							>
+								Sort: {SORT_LABELS[sort]}
+							</button>
+						</hstack>
+						{data.rows.length > 0 ? (
+							data.rows.map((row) => (
+								<FlairRow
+									row={row}
+									onPress={() => {
+										setSelectedFlair(row.flair);
+										setUserPage(0);
+									}}
+								/>
+							))
+						) : (
+							<text size="small">No flairs match.</text>
+						)}
+						<spacer grow />
+						<hstack width="100%" alignment="center middle" gap="small">
+							<button size="small" disabled={page === 0} onPress={() => setPage(page - 1)}>
+								Previous
+							</button>
+							<text size="small">
+								Page {Math.min(page + 1, data.pageCount)} of {data.pageCount}
+							</text>
+							<button size="small" disabled={page + 1 >= data.pageCount} onPress={() => setPage(page + 1)}>
+								Next
+							</button>
+						</hstack>
+					</vstack>
+				) : (
+					<Notice title="No results yet" text="Start a scan to build the flair breakdown. Progress appears here while it runs." />
+				)}
+			</vstack>
+		);
+	},
+});
+
+/* ---------- Part 4: Menu item ---------- */
+
+Devvit.addMenuItem({
+	label: "Create Flair Fax Dashboard",
+	description: "Post a mod-only dashboard of user flairs",
+	location: "subreddit",
+	forUserType: "moderator",
+	onPress: async (_, context) => {
+		try {
+			if (!(await requireFlairPermission(context, "export", "create the flair dashboard"))) return;
+			const subredditName = await context.reddit.getCurrentSubredditName();
+			const post = await context.reddit.submitPost({
+				title: "Flair Fax Dashboard",
+				subredditName,
+				preview: <Notice title="Flair Fax Dashboard" text="Loading…" />,
+			});
+			await recordFlairAudit(context, { action: "create dashboard post", outcome: "ok", detail: post.id });
+			context.ui.showToast("Dashboard post created");
+			context.ui.navigateTo(post);
+		} catch (err) {
+			console.error("Could not create flair dashboard post:", err);
+			context.ui.showToast("Could not create the dashboard post (" + err + ")");
+		}
+	},
+});
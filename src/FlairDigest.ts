@@ -0,0 +1,248 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { readFlairCounts, readManifest } from "./FlairScanStore.js";
+import { recordFlairAudit } from "./FlairPermissions.js";
+import { chunkLinesByLength, escapeMarkdown, MAX_COMMENT_CHARACTER_COUNT } from "./RedditUtils.js";
+import { formatNumberWithCommas, formatUserTotals, registerFlairFormAction, safeKVWrite } from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Settings and state ---------- */
+
+export const FLAIR_DIGEST_CADENCE_OPTIONS = [
+	{ label: "Never", value: "never" },
+	{ label: "Weekly", value: "weekly" },
+	{ label: "Monthly (first check of each month)", value: "monthly" },
+];
+
+export const FLAIR_DIGEST_DESTINATION_OPTIONS = [
+	{ label: "Mod Discussions", value: "modDiscussion" },
+	{ label: "Modmail inbox", value: "modInbox" },
+	{ label: "Modmail notifications", value: "modNotification" },
+	{ label: "Only the users listed below", value: "none" },
+];
+
+interface FlairDigestRecord {
+	sentAt: number;
+	scanTimestamp: number;
+}
+
+const DIGEST_JOB_NAME = "flairDigest";
+const DIGEST_CRON = "0 15 * * *"; // checked daily; the cadence setting decides whether one is due
+const LAST_DIGEST_KEY = "flairDigestLast";
+const LAST_DIGEST_COUNTS_KEY = "flairDigestCounts"; // hash: flair → users at the last digest, for "changes since"
+const LIST_LIMIT = 25; // new and emptied flairs listed before "…and N more"
+
+async function getLastDigest(context: JobContext): Promise<FlairDigestRecord | null> {
+	const raw = await context.kvStore.get(LAST_DIGEST_KEY);
+	return raw ? (raw as unknown as FlairDigestRecord) : null;
+}
+
+/* weekly: seven days since the last one (with an hour of slack for the cron); monthly: none sent yet this calendar month */
+function isDigestDue(cadence: string, last: FlairDigestRecord | null, now = new Date()): boolean {
+	if (cadence !== "weekly" && cadence !== "monthly") return false;
+	if (!last) return true;
+	if (cadence === "weekly") return now.getTime() - last.sentAt >= 7 * 24 * 60 * 60 * 1000 - 60 * 60 * 1000;
+	const sent = new Date(last.sentAt);
+	return sent.getUTCFullYear() !== now.getUTCFullYear() || sent.getUTCMonth() !== now.getUTCMonth();
+}
+
+/* ---------- Part 2: Digest markdown ---------- */
+
+function formatChange(now: number, before: number | undefined): string {
+	if (before === undefined) return "new";
+	if (now === before) return "±0";
+	return now > before ? `+${formatNumberWithCommas(now - before)}` : `−${formatNumberWithCommas(before - now)}`;
+}
+
+function formatFlairList(flairs: string[]): string {
+	const shown = flairs.slice(0, LIST_LIMIT).map((f) => `"${escapeMarkdown(f)}"`);
+	if (flairs.length > LIST_LIMIT) shown.push(`…and ${formatNumberWithCommas(flairs.length - LIST_LIMIT)} more`);
+	return shown.join(", ");
+}
+
+/**
+ * buildDigestMarkdown
+ * - totals, then the top N flairs with their change since the last digest
+ * - flairs that appeared or emptied since then
+ * - built from per-flair counts only, so it stays short however many users the subreddit has
+ */
+export function buildDigestMarkdown(
+	counts: Record<string, number>,
+	previous: Record<string, number> | null,
+	totals: string,
+	scannedAt: number,
+	topN: number,
+	breakdownPointer: string
+): string {
+	const sorted = Object.entries(counts).sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+	const lines = [`Flair census from the scan of ${new Date(scannedAt).toLocaleString()}.`, "", `${totals}  `, `Flairs: ${formatNumberWithCommas(sorted.length)}`, ""];
+
+	lines.push(`**Top ${Math.min(topN, sorted.length)} flairs**`, "", "| Flair | Users | Since last digest |", "|---|--:|--:|");
+	for (const [flair, count] of sorted.slice(0, topN)) {
+		lines.push(`| ${escapeMarkdown(flair)} | ${formatNumberWithCommas(count)} | ${previous ? formatChange(count, previous[flair]) : "–"} |`);
+	}
+	lines.push("");
+
+	if (previous) {
+		const appeared = sorted.filter(([flair]) => previous[flair] === undefined).map(([flair]) => flair);
+		const emptied = Object.keys(previous)
+			.filter((flair) => !counts[flair])
+			.sort((a, b) => previous[b] - previous[a]);
+		lines.push(`**New flairs (${formatNumberWithCommas(appeared.length)}):** ${appeared.length > 0 ? formatFlairList(appeared) : "none"}`, "");
+		lines.push(`**Flairs now empty (${formatNumberWithCommas(emptied.length)}):** ${emptied.length > 0 ? formatFlairList(emptied) : "none"}`, "");
+	} else {
+		lines.push("This is the first digest, so there are no changes to compare yet.", "");
+	}
+
+	lines.push(breakdownPointer);
+	return lines.join("\n");
+}
+
+/* ---------- Part 3: Sending ---------- */
+
+function parseRecipients(text: string): string[] {
+	return (text ?? "")
+		.split(/[\n,]/)
+		.map((line) => line.trim().replace(/^\/?u\//i, ""))
+		.filter((line) => line && !line.startsWith("#"));
+}
+
+type DigestOutcome = "sent" | "noScan" | "noRecipients";
+
+/* sendDigestMail: one conversation per destination, the rest of a long digest as replies; returns how many were delivered */
+async function sendDigestMail(context: JobContext, subredditName: string, subject: string, chunks: string[], destination: string, recipients: string[]): Promise<number> {
+	const [first, ...rest] = chunks;
+	let delivered = 0;
+	let teamConversationId: string | undefined;
+	if (destination === "modInbox") teamConversationId = await context.reddit.modMail.createModInboxConversation({ subject, bodyMarkdown: first, subredditId: context.subredditId });
+	else if (destination === "modNotification") teamConversationId = await context.reddit.modMail.createModNotification({ subject, bodyMarkdown: first, subredditId: context.subredditId });
+	else if (destination === "modDiscussion") teamConversationId = await context.reddit.modMail.createModDiscussionConversation({ subject, bodyMarkdown: first, subredditId: context.subredditId });
+	if (teamConversationId) {
+		for (const chunk of rest) await context.reddit.modMail.reply({ conversationId: teamConversationId, body: chunk });
+		delivered++;
+	}
+	for (const username of recipients) {
+		try {
+			const { conversation } = await context.reddit.modMail.createConversation({ subredditName, subject, body: first, to: username });
+			if (conversation.id) for (const chunk of rest) await context.reddit.modMail.reply({ conversationId: conversation.id, body: chunk });
+			delivered++;
+		} catch (err) {
+			// one bad username shouldn't stop the others
+			console.error(`Could not send flair digest to u/${username}:`, err);
+		}
+	}
+	return delivered;
+}
+
+/**
+ * sendFlairDigest: mail the digest for the stored result
+ * - "noScan" when there is no completed scan, "noRecipients" when the settings send it nowhere
+ * - a digest for the same scan as the last one is still sent, but labelled as having no new scan
+ * - throws when no destination or recipient could be reached; nothing is recorded as sent then
+ */
+export async function sendFlairDigest(context: JobContext, sentBy: string): Promise<DigestOutcome> {
+	const manifest = await readManifest(context, "result");
+	if (!manifest?.completed) return "noScan";
+
+	const settings = await getAppSettings(context);
+	const destination = settings.flairDigestDestination;
+	const recipients = parseRecipients(settings.flairDigestRecipients);
+	if (destination === "none" && recipients.length === 0) return "noRecipients";
+
+	const subredditName = await context.reddit.getCurrentSubredditName();
+	const counts = await readFlairCounts(context, "result");
+	const last = await getLastDigest(context);
+	const previousRaw = last ? await context.redis.hGetAll(LAST_DIGEST_COUNTS_KEY) : {};
+	const previous = last ? Object.fromEntries(Object.entries(previousRaw ?? {}).map(([flair, n]) => [flair, parseInt(n, 10)])) : null;
+	const stale = last?.scanTimestamp === manifest.timestamp;
+
+	const pointer = settings.flairWikiAutoPublish
+		? `Full breakdown: [wiki/${settings.flairWikiPage}](https://www.reddit.com/r/${subredditName}/wiki/${settings.flairWikiPage}), or "User Flairs" in the subreddit menu.`
+		: `For the full breakdown and user lists, open "User Flairs" in the r/${subredditName} menu.`;
+	let body = buildDigestMarkdown(counts, previous, formatUserTotals(manifest), manifest.timestamp, Math.max(1, settings.flairDigestTopCount), pointer);
+	if (stale) body = `**No scan has completed since the last digest**, so these are the same numbers as last time.\n\n${body}`;
+	const chunks = chunkLinesByLength(body.split("\n"), MAX_COMMENT_CHARACTER_COUNT - 500);
+	const subject = `Flair Fax digest for r/${subredditName}: ${new Date().toLocaleDateString()}${stale ? " (no new scan)" : ""}`;
+
+	const delivered = await sendDigestMail(context, subredditName, subject, chunks, destination, recipients);
+	if (delivered === 0) throw new Error(`the digest could not be sent to any of the ${recipients.length} listed users`);
+
+	await context.redis.del(LAST_DIGEST_COUNTS_KEY);
+	if (Object.keys(counts).length > 0) await context.redis.hSet(LAST_DIGEST_COUNTS_KEY, Object.fromEntries(Object.entries(counts).map(([flair, n]) => [flair, String(n)])));
+	const record: FlairDigestRecord = { sentAt: Date.now(), scanTimestamp: manifest.timestamp };
+	await safeKVWrite(context, LAST_DIGEST_KEY, record);
+
+	console.log(`Sent flair digest (${destination}, ${delivered} conversations)`);
+	await recordFlairAudit(context, {
+		user: sentBy,
+		action: "send flair digest",
+		outcome: "ok",
+		detail: `${formatNumberWithCommas(Object.keys(counts).length)} flairs, ${delivered} conversation${delivered === 1 ? "" : "s"}${stale ? ", no new scan" : ""}`,
+	});
+	return "sent";
+}
+
+/* Recurring job: sends the digest when the flairDigestCadence setting says one is due */
+Devvit.addSchedulerJob({
+	name: DIGEST_JOB_NAME,
+	onRun: async (_, context) => {
+		const { flairDigestCadence } = await getAppSettings(context);
+		if (!isDigestDue(flairDigestCadence, await getLastDigest(context))) return;
+		try {
+			const outcome = await sendFlairDigest(context, "scheduler");
+			if (outcome === "noScan") console.log("Flair digest due, but there is no completed scan yet.");
+			else if (outcome === "noRecipients") console.log("Flair digest due, but the settings don't send it anywhere.");
+		} catch (err) {
+			console.error("Flair digest job error:", err);
+			await recordFlairAudit(context, { user: "scheduler", action: "send flair digest", outcome: "failed", detail: String(err) });
+		}
+	},
+});
+
+/* (re)register the daily digest check so exactly one exists per installation */
+async function scheduleDigestJob(context: JobContext) {
+	const jobs = await context.scheduler.listJobs();
+	for (const job of jobs) {
+		if (job.name === DIGEST_JOB_NAME) await context.scheduler.cancelJob(job.id);
+	}
+	await context.scheduler.runJob({ name: DIGEST_JOB_NAME, cron: DIGEST_CRON });
+}
+
+Devvit.addTrigger({
+	events: ["AppInstall", "AppUpgrade"],
+	onEvent: async (_, context) => {
+		try {
+			await scheduleDigestJob(context);
+		} catch (err) {
+			console.error("Could not schedule flair digest:", err);
+		}
+	},
+});
+
+registerFlairFormAction({
+	value: "sendDigest",
+	label: "Send the flair digest to modmail now",
+	permission: "export",
+	run: async (context) => {
+		try {
+			const outcome = await sendFlairDigest(context, (await context.reddit.getCurrentUsername()) ?? "unknown");
+			if (outcome === "noScan") {
+				context.ui.showToast("No completed scan to summarize yet.");
+				return;
+			}
+			if (outcome === "noRecipients") {
+				context.ui.showToast("The digest settings send it nowhere: pick a modmail destination or list some users.");
+				return;
+			}
+			context.ui.showToast("Flair digest sent to modmail");
+		} catch (error) {
+			console.error("Error sending flair digest:", error);
+			await recordFlairAudit(context, { action: "send flair digest", outcome: "failed", detail: String(error) });
+			context.ui.showToast("Error sending flair digest (" + error + ")");
+		}
+	},
+});
@@ -0,0 +1,335 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { chunkLinesByLength, MAX_COMMENT_CHARACTER_COUNT } from "./RedditUtils.js";
+import { recordFlairAudit, requireFlairPermission } from "./FlairPermissions.js";
+import {
+	FlairScanResult,
+	formatNumberWithCommas,
+	getCompletedScanResult,
+	isNoTextFlairGroup,
+	isTimeRemaining,
+	registerFlairFormAction,
+	safeKVDelete,
+	safeKVWrite,
+	sleep,
+	startTimer,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Types and formatting ---------- */
+
+type ExportFormat = "csv" | "json";
+
+interface FlairExportState {
+	conversationId: string | null;
+	formats: ExportFormat[];
+	scanTimestamp: number; // which flairScanResult is being exported
+	formatIndex: number; // position in `formats`
+	nextPart: number; // next message to send for formats[formatIndex]
+	requestedBy: string;
+}
+
+const EXPORT_JOB_NAME = "flairExportChunk";
+const EXPORT_STATE_KEY = "flairExportState";
+const EXPORT_LEASE_KEY = "flairExportLease"; // Redis: JSON ExportLease held by the one job run allowed to send
+const EXPORT_LEASE_TIMEOUT_MULTIPLIER = 2; // a lease not renewed for 2 job budgets belongs to a run that died
+// room for the "Part x of y" header and code fence around each chunk
+const MESSAGE_BODY_BUDGET = MAX_COMMENT_CHARACTER_COUNT - 200;
+const SLEEP_BETWEEN_MESSAGES_MS = 500;
+
+function csvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+interface ExportRow {
+	username: string;
+	flair_text: string;
+	css_class: string;
+}
+
+function buildExportRows(result: FlairScanResult): ExportRow[] {
+	const rows: ExportRow[] = [];
+	for (const [flairText, users] of Object.entries(result.flairGroups)) {
+		for (const username of users) {
+			// "(no text)" groups are labels, not the user's flair text
+			rows.push({ username, flair_text: isNoTextFlairGroup(flairText) ? "" : flairText, css_class: result.flairCssClasses?.[username] ?? "" });
+		}
+	}
+	return rows.sort((a, b) => a.username.localeCompare(b.username));
+}
+
+/* one record per line, so any run of lines can be split across messages and re-joined */
+function buildExportLines(result: FlairScanResult, format: ExportFormat): string[] {
+	const rows = buildExportRows(result);
+	if (format === "csv") {
+		return ["username,flair_text,css_class", ...rows.map((r) => [r.username, r.flair_text, r.css_class].map(csvField).join(","))];
+	}
+	return ["[", ...rows.map((r, i) => JSON.stringify(r) + (i < rows.length - 1 ? "," : "")), "]"];
+}
+
+function buildExportChunks(result: FlairScanResult, format: ExportFormat): string[] {
+	return chunkLinesByLength(buildExportLines(result, format), MESSAGE_BODY_BUDGET);
+}
+
+/* a fence longer than any run of backticks in the content, so flair text can't close it early */
+function codeFence(content: string): string {
+	const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+	return "`".repeat(Math.max(3, longest + 1));
+}
+
+function formatExportMessage(format: ExportFormat, chunk: string, part: number, total: number): string {
+	const fence = codeFence(chunk);
+	return `**${format.toUpperCase()} part ${part + 1} of ${total}**\n\n${fence}\n${chunk}\n${fence}`;
+}
+
+/* ---------- Part 2: Export lease ---------- */
+
+/* like the scan lease: only the job run holding it sends messages, and it renews it after each one */
+interface ExportLease {
+	owner: string; // one id per job run
+	expiresAt: number;
+}
+
+async function readExportLease(context: JobContext): Promise<ExportLease | null> {
+	const raw = await context.redis.get(EXPORT_LEASE_KEY);
+	return raw ? (JSON.parse(raw) as ExportLease) : null;
+}
+
+/* claimExportLease: take a free or stale lease, or renew our own; WATCH keeps two runs from both succeeding */
+async function claimExportLease(context: JobContext, owner: string, timeoutSeconds: number): Promise<boolean> {
+	const now = Date.now();
+	const txn = await context.redis.watch(EXPORT_LEASE_KEY);
+	const current = await readExportLease(context);
+	if (current && current.owner !== owner && current.expiresAt > now) {
+		await txn.unwatch();
+		return false;
+	}
+	const lease: ExportLease = { owner, expiresAt: now + timeoutSeconds * 1000 * EXPORT_LEASE_TIMEOUT_MULTIPLIER };
+	try {
+		await txn.multi();
+		await txn.set(EXPORT_LEASE_KEY, JSON.stringify(lease), { expiration: new Date(lease.expiresAt) });
+		await txn.exec();
+	} catch (err) {
+		console.warn("Flair export lease changed while claiming it:", err);
+		return false;
+	}
+	return (await readExportLease(context))?.owner === owner;
+}
+
+async function releaseExportLease(context: JobContext, owner: string) {
+	try {
+		const txn = await context.redis.watch(EXPORT_LEASE_KEY);
+		if ((await readExportLease(context))?.owner !== owner) {
+			await txn.unwatch();
+			return;
+		}
+		await txn.multi();
+		await txn.del(EXPORT_LEASE_KEY);
+		await txn.exec();
+	} catch (err) {
+		console.warn("Could not release flair export lease:", err);
+	}
+}
+
+/* ---------- Part 3: Export job ---------- */
+
+/* sends as many export messages as fit in the time budget, then re-queues itself */
+Devvit.addSchedulerJob({
+	name: EXPORT_JOB_NAME,
+	onRun: async (_, context) => {
+		const { devvitExecutionTimeoutSeconds } = await getAppSettings(context);
+		// a resume can queue a second run while one is still sending: only one may hold the lease
+		const leaseOwner = `export-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+		if (!(await claimExportLease(context, leaseOwner, devvitExecutionTimeoutSeconds))) {
+			console.log("Flair export job skipped: another run is still sending.");
+			return;
+		}
+		try {
+			await runExportChunk(context, leaseOwner, devvitExecutionTimeoutSeconds);
+		} finally {
+			await releaseExportLease(context, leaseOwner);
+		}
+	},
+});
+
+/* runExportChunk: send parts from the checkpoint while the budget and the lease last */
+async function runExportChunk(context: JobContext, leaseOwner: string, devvitExecutionTimeoutSeconds: number) {
+	const stateRaw = await context.kvStore.get(EXPORT_STATE_KEY);
+	if (!stateRaw) return;
+	const state = stateRaw as unknown as FlairExportState;
+
+	const result = await getCompletedScanResult(context);
+	if (!result || result.timestamp !== state.scanTimestamp) {
+		console.warn("Flair export stopped: the scan result changed while exporting.");
+		await recordFlairAudit(context, { user: state.requestedBy, action: "export", outcome: "failed", detail: "scan result replaced mid-export" });
+		if (state.conversationId) {
+			await context.reddit.modMail.reply({
+				conversationId: state.conversationId,
+				body: "Export stopped early: a newer scan replaced the results being exported. Start the export again to get the new data.",
+			});
+		}
+		await safeKVDelete(context, EXPORT_STATE_KEY);
+		return;
+	}
+
+	const start = startTimer();
+
+	try {
+		if (!state.conversationId) {
+			state.conversationId = await context.reddit.modMail.createModDiscussionConversation({
+				subject: `Flair Fax export: ${new Date(result.timestamp).toLocaleDateString()} (${state.formats.join(" + ").toUpperCase()})`,
+				bodyMarkdown:
+					`User flair export requested by u/${state.requestedBy}.\n\n` +
+					`Scan from ${new Date(result.timestamp).toLocaleString()}: ${formatNumberWithCommas(result.scannedUsers)} users, ` +
+					`${formatNumberWithCommas(Object.keys(result.flairGroups).length)} flairs.\n\n` +
+					`Each format follows in numbered parts. Copy the code blocks in order and join them to rebuild the file.`,
+				subredditId: context.subredditId,
+			});
+			await safeKVWrite(context, EXPORT_STATE_KEY, state);
+		}
+
+		while (state.formatIndex < state.formats.length) {
+			const format = state.formats[state.formatIndex];
+			const chunks = buildExportChunks(result, format);
+			while (state.nextPart < chunks.length) {
+				if (!isTimeRemaining(start, devvitExecutionTimeoutSeconds)) {
+					await safeKVWrite(context, EXPORT_STATE_KEY, state);
+					await context.scheduler.runJob({ name: EXPORT_JOB_NAME, runAt: new Date(Date.now() + 2000) });
+					return;
+				}
+				if (!(await claimExportLease(context, leaseOwner, devvitExecutionTimeoutSeconds))) {
+					console.warn("Flair export lease lost; stopping without sending.");
+					return;
+				}
+				await context.reddit.modMail.reply({
+					conversationId: state.conversationId,
+					body: formatExportMessage(format, chunks[state.nextPart], state.nextPart, chunks.length),
+				});
+				state.nextPart++;
+				// checkpoint after every message so a crash never re-sends more than one part
+				await safeKVWrite(context, EXPORT_STATE_KEY, state);
+				await sleep(SLEEP_BETWEEN_MESSAGES_MS);
+			}
+			state.formatIndex++;
+			state.nextPart = 0;
+		}
+
+		await context.reddit.modMail.reply({ conversationId: state.conversationId, body: "✅ Export complete." });
+		await safeKVDelete(context, EXPORT_STATE_KEY);
+		console.log(`Flair export complete (${state.formats.join(", ")})`);
+		await recordFlairAudit(context, { user: state.requestedBy, action: "export", outcome: "ok", detail: `${state.formats.join(" + ")} sent to modmail` });
+	} catch (err) {
+		// keep the state so "Export" can resume from the last sent part
+		console.error("Flair export job error:", err);
+		await recordFlairAudit(context, { user: state.requestedBy, action: "export", outcome: "failed", detail: String(err) });
+		await safeKVWrite(context, EXPORT_STATE_KEY, state);
+	}
+}
+
+/* ---------- Part 4: Form ---------- */
+
+const exportForm = Devvit.createForm(
+	(data) => ({
+		title: "Export User Flairs to Modmail",
+		acceptLabel: data.inProgress ? "Resume Export" : "Export",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "summary",
+				type: "paragraph",
+				label: "What will be sent",
+				defaultValue: data.summary,
+				disabled: true,
+				lineHeight: 6,
+			},
+			{
+				name: "formats",
+				type: "select",
+				label: "Formats",
+				options: [
+					{ label: "CSV (username,flair_text,css_class)", value: "csv" },
+					{ label: "JSON", value: "json" },
+				],
+				defaultValue: ["csv", "json"],
+				multiSelect: true,
+				disabled: !!data.inProgress,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		if (!(await requireFlairPermission(context, "export", "export user flairs"))) return;
+		try {
+			const existing = await context.kvStore.get(EXPORT_STATE_KEY);
+			if (existing) {
+				const lease = await readExportLease(context);
+				if (lease && lease.expiresAt > Date.now()) {
+					context.ui.showToast("The flair export is still sending. Check Mod Discussions in modmail.");
+					return;
+				}
+				// resume a stopped export where it left off
+				await context.scheduler.runJob({ name: EXPORT_JOB_NAME, runAt: new Date() });
+				context.ui.showToast("Resuming flair export to modmail...");
+				await recordFlairAudit(context, { action: "resume export", outcome: "ok" });
+				return;
+			}
+
+			const formats = ((values.formats ?? []) as string[]).filter((f): f is ExportFormat => f === "csv" || f === "json");
+			if (formats.length === 0) {
+				context.ui.showToast("Pick at least one format.");
+				return;
+			}
+			const result = await getCompletedScanResult(context);
+			if (!result) {
+				context.ui.showToast("No completed scan to export yet.");
+				return;
+			}
+
+			const state: FlairExportState = {
+				conversationId: null,
+				formats,
+				scanTimestamp: result.timestamp,
+				formatIndex: 0,
+				nextPart: 0,
+				requestedBy: (await context.reddit.getCurrentUsername()) ?? "unknown",
+			};
+			await safeKVWrite(context, EXPORT_STATE_KEY, state);
+			await context.scheduler.runJob({ name: EXPORT_JOB_NAME, runAt: new Date() });
+			context.ui.showToast("Export started. Check Mod Discussions in modmail.");
+			await recordFlairAudit(context, { action: "start export", outcome: "ok", detail: formats.join(" + ") });
+		} catch (error) {
+			console.error("Error starting flair export:", error);
+			await recordFlairAudit(context, { action: "start export", outcome: "failed", detail: String(error) });
+			context.ui.showToast("Error starting flair export (" + error + ")");
+		}
+	}
+);
+
+registerFlairFormAction({
+	value: "export",
+	label: "Export as CSV / JSON to modmail",
+	permission: "export",
+	run: async (context) => {
+		const result = await getCompletedScanResult(context);
+		if (!result) {
+			context.ui.showToast("No completed scan to export yet.");
+			return;
+		}
+		const stateRaw = await context.kvStore.get(EXPORT_STATE_KEY);
+		const state = stateRaw ? (stateRaw as unknown as FlairExportState) : null;
+
+		const csvParts = buildExportChunks(result, "csv").length;
+		const jsonParts = buildExportChunks(result, "json").length;
+		const summary = state
+			? `An export is already in progress (${state.formats[state.formatIndex] ?? "done"}, part ${state.nextPart + 1}). Resume it if it stopped.`
+			: `${formatNumberWithCommas(result.scannedUsers)} users from the scan on ${new Date(result.timestamp).toLocaleString()}.\n` +
+			  `CSV: ${formatNumberWithCommas(csvParts)} message${csvParts === 1 ? "" : "s"}\n` +
+			  `JSON: ${formatNumberWithCommas(jsonParts)} message${jsonParts === 1 ? "" : "s"}\n` +
+			  `Sent as a Mod Discussion in modmail.`;
+
+		context.ui.showForm(exportForm, { summary, inProgress: !!state });
+	},
+});
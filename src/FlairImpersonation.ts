@@ -0,0 +1,208 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { FlairTemplateInfo, getFlairTemplateInfos } from "./FlairBreakdowns.js";
+import { editDistance, skeleton } from "./FlairNormalization.js";
+import { getModerators } from "./RedditUtils.js";
+import { FlairScanResult, formatNumberWithCommas, getCompletedScanResult, isNoTextFlairGroup, registerFlairFormAction } from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+});
+
+/* ---------- Part 1: Protected flairs ---------- */
+
+type ProtectedFlair =
+	| { kind: "text"; label: string; skeleton: string }
+	| { kind: "pattern"; label: string; pattern: RegExp }
+	| { kind: "template"; label: string; templateId: string };
+
+/* digits and symbols commonly swapped for letters, so "M0derat0r" and "Off1cia|" fold back to the real word */
+const CONFUSABLES: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "8": "b", "@": "a", $: "s", "|": "i", "!": "i", l: "i" };
+
+function confusableSkeleton(text: string): string {
+	return skeleton(
+		text
+			.toLocaleLowerCase()
+			.split("")
+			.map((c) => CONFUSABLES[c] ?? c)
+			.join("")
+	);
+}
+
+/**
+ * parseProtectedFlairs
+ * - one flair text per line, or a flair template ID, or `/pattern/flags`
+ * - blank lines and lines starting with # are ignored
+ */
+export function parseProtectedFlairs(text: string, templates: FlairTemplateInfo[] = []): { flairs: ProtectedFlair[]; errors: string[] } {
+	const flairs: ProtectedFlair[] = [];
+	const errors: string[] = [];
+	for (const [i, rawLine] of (text ?? "").split("\n").entries()) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+		const literal = /^\/(.+)\/([a-z]*)$/.exec(line);
+		if (literal) {
+			try {
+				flairs.push({ kind: "pattern", label: line, pattern: new RegExp(literal[1], literal[2].replace("g", "")) });
+			} catch (err) {
+				errors.push(`Line ${i + 1}: ${err instanceof Error ? err.message : err}`);
+			}
+			continue;
+		}
+		const template = templates.find((t) => t.id === line);
+		if (template) {
+			flairs.push({ kind: "template", label: `template "${template.text || template.id}"`, templateId: template.id });
+			// the template's own text is protected too, for users whose template couldn't be inferred
+			if (template.text) flairs.push({ kind: "text", label: template.text, skeleton: confusableSkeleton(template.text) });
+			continue;
+		}
+		flairs.push({ kind: "text", label: line, skeleton: confusableSkeleton(line) });
+	}
+	return { flairs, errors };
+}
+
+/* matchProtectedFlair: how a flair text resembles a protected flair, or null */
+function matchProtectedFlair(flairText: string, protectedFlair: ProtectedFlair): "exact" | "near" | null {
+	if (protectedFlair.kind === "pattern") return protectedFlair.pattern.test(flairText) ? "exact" : null;
+	if (protectedFlair.kind !== "text") return null;
+
+	if (flairText.trim().toLocaleLowerCase() === protectedFlair.label.toLocaleLowerCase()) return "exact";
+	const flair = confusableSkeleton(flairText);
+	const wanted = protectedFlair.skeleton;
+	if (!flair || !wanted) return null;
+	if (flair === wanted) return "near";
+	// short words like "mod" would turn up inside too many innocent flairs
+	if (wanted.length >= 5 && flair.includes(wanted)) return "near";
+	const maxDistance = Math.min(flair.length, wanted.length) >= 8 ? 2 : 1;
+	if (Math.min(flair.length, wanted.length) >= 4 && editDistance(flair, wanted, maxDistance) <= maxDistance) return "near";
+	return null;
+}
+
+/* ---------- Part 2: Report ---------- */
+
+interface ImpersonationFinding {
+	flairText: string;
+	protectedLabel: string;
+	match: "exact" | "near" | "template";
+	users: string[];
+}
+
+function parseUsernames(text: string): Set<string> {
+	return new Set(
+		(text ?? "")
+			.split(/[\n,]/)
+			.map((line) => line.trim().replace(/^\/?u\//i, "").toLocaleLowerCase())
+			.filter((line) => line && !line.startsWith("#"))
+	);
+}
+
+/* findImpersonations: flair groups holding (or imitating) a protected flair, with the users who aren't mods or allowed */
+export function findImpersonations(result: FlairScanResult, protectedFlairs: ProtectedFlair[], allowed: Set<string>): ImpersonationFinding[] {
+	const findings: ImpersonationFinding[] = [];
+	const protectedTemplates = protectedFlairs.filter((p): p is Extract<ProtectedFlair, { kind: "template" }> => p.kind === "template");
+
+	for (const [flairText, users] of Object.entries(result.flairGroups)) {
+		const suspects = users.filter((user) => !allowed.has(user.toLocaleLowerCase()));
+		if (suspects.length === 0) continue;
+
+		// a protected template counts whatever text the user gave it
+		const byTemplate: Record<string, string[]> = {};
+		for (const user of suspects) {
+			const templateId = result.flairTemplateIds?.[user];
+			const template = templateId ? protectedTemplates.find((p) => p.templateId === templateId) : undefined;
+			if (template) (byTemplate[template.label] ??= []).push(user);
+		}
+		for (const [label, holders] of Object.entries(byTemplate)) findings.push({ flairText, protectedLabel: label, match: "template", users: holders });
+		const remaining = suspects.filter((user) => !Object.values(byTemplate).some((holders) => holders.includes(user)));
+		if (remaining.length === 0 || isNoTextFlairGroup(flairText)) continue;
+
+		let best: { label: string; match: "exact" | "near" } | null = null;
+		for (const p of protectedFlairs) {
+			const match = matchProtectedFlair(flairText, p);
+			if (match && (!best || (best.match === "near" && match === "exact"))) best = { label: p.label, match };
+		}
+		if (best) findings.push({ flairText, protectedLabel: best.label, match: best.match, users: remaining });
+	}
+
+	const order = { exact: 0, template: 1, near: 2 };
+	return findings.sort((a, b) => order[a.match] - order[b.match] || b.users.length - a.users.length);
+}
+
+const REPORT_USERS_PER_FLAIR = 50;
+
+function formatImpersonationReport(findings: ImpersonationFinding[], modCount: number, allowedCount: number): string {
+	const header = `Checked against ${formatNumberWithCommas(modCount)} moderators and ${formatNumberWithCommas(allowedCount)} allowed users.`;
+	if (findings.length === 0) return `${header}\n\nNo one else holds a protected flair or a look-alike.`;
+
+	const sections: string[] = [header];
+	const titles = { exact: "Holding a protected flair", template: "Using a protected template", near: "Near-matches (look-alikes)" };
+	for (const match of ["exact", "template", "near"] as const) {
+		const matching = findings.filter((f) => f.match === match);
+		if (matching.length === 0) continue;
+		const total = matching.reduce((sum, f) => sum + f.users.length, 0);
+		const lines = matching.map((f) => {
+			const shown = f.users.slice(0, REPORT_USERS_PER_FLAIR).map((u) => `u/${u}`);
+			if (f.users.length > REPORT_USERS_PER_FLAIR) shown.push(`…and ${formatNumberWithCommas(f.users.length - REPORT_USERS_PER_FLAIR)} more`);
+			const resembles = match === "exact" && f.flairText.trim().toLocaleLowerCase() === f.protectedLabel.toLocaleLowerCase() ? "" : ` ≈ ${f.protectedLabel}`;
+			return `• "${f.flairText}"${resembles} (${formatNumberWithCommas(f.users.length)}): ${shown.join(", ")}`;
+		});
+		sections.push(`${titles[match]} — ${formatNumberWithCommas(total)} user${total === 1 ? "" : "s"}:\n${lines.join("\n")}`);
+	}
+	return sections.join("\n\n");
+}
+
+async function buildImpersonationReport(context: JobContext): Promise<string | null> {
+	const result = await getCompletedScanResult(context);
+	if (!result) return null;
+	const { flairProtectedFlairs, flairProtectedAllowedUsers } = await getAppSettings(context);
+	const { flairs } = parseProtectedFlairs(flairProtectedFlairs, await getFlairTemplateInfos(context));
+	if (flairs.length === 0) return "No protected flairs are set up. Add them under \"Impersonation check\" in the app settings.";
+
+	const mods = (await getModerators(context)).map((m) => m.username.toLocaleLowerCase());
+	const allowedUsers = parseUsernames(flairProtectedAllowedUsers);
+	const allowed = new Set([...mods, ...allowedUsers]);
+	return formatImpersonationReport(findImpersonations(result, flairs, allowed), mods.length, allowedUsers.size);
+}
+
+/* ---------- Part 3: Form ---------- */
+
+const impersonationForm = Devvit.createForm(
+	(data) => ({
+		title: "Impersonation Report",
+		acceptLabel: "Refresh",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "report",
+				type: "paragraph",
+				label: "Non-moderators holding protected flairs",
+				defaultValue: data.report,
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async (_, context) => {
+		await showImpersonationReport(context);
+	}
+);
+
+async function showImpersonationReport(context: Devvit.Context) {
+	try {
+		const report = await buildImpersonationReport(context);
+		if (report === null) {
+			context.ui.showToast("No completed scan yet.");
+			return;
+		}
+		context.ui.showForm(impersonationForm, { report });
+	} catch (error) {
+		console.error("Error building impersonation report:", error);
+		context.ui.showToast("Error building impersonation report (" + error + ")");
+	}
+}
+
+registerFlairFormAction({
+	value: "impersonation",
+	label: "Impersonation report (protected flairs held by non-mods)",
+	run: showImpersonationReport,
+});
@@ -0,0 +1,153 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { readFlairCount, readManifest } from "./FlairScanStore.js";
+import { getFlairTemplateInfos } from "./FlairBreakdowns.js";
+import { getSnapshotIndex, getSnapshotUserFlair } from "./FlairSnapshots.js";
+import { formatNumberWithCommas, getStoredUserFlair, NO_TEXT_FLAIR, registerFlairFormAction } from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Per-user flair history ---------- */
+
+export interface FlairHistoryEntry {
+	at: number; // when the change was seen (ms)
+	from: string | null; // flair text before (null = none)
+	to: string | null; // flair text after (null = cleared)
+	source: string;
+}
+
+const FLAIR_HISTORY_KEY = "flairHistory"; // hash: username → JSON FlairHistoryEntry[] (oldest first)
+const MAX_HISTORY_ENTRIES = 25;
+
+export function normalizeUsername(input: string): string {
+	return input.trim().replace(/^\/?u\//i, "");
+}
+
+/* recordFlairHistory: remember a live flair change for the user lookup timeline */
+export async function recordFlairHistory(context: JobContext, username: string, entry: FlairHistoryEntry) {
+	const history = await getFlairHistory(context, username);
+	history.push(entry);
+	await context.redis.hSet(FLAIR_HISTORY_KEY, { [username]: JSON.stringify(history.slice(-MAX_HISTORY_ENTRIES)) });
+}
+
+export async function getFlairHistory(context: JobContext, username: string): Promise<FlairHistoryEntry[]> {
+	const raw = await context.redis.hGet(FLAIR_HISTORY_KEY, username);
+	return raw ? (JSON.parse(raw) as FlairHistoryEntry[]) : [];
+}
+
+/* ---------- Part 2: Lookup report ---------- */
+
+function describeFlair(text: string | null | undefined): string {
+	return text ? `"${text}"` : "(no flair)";
+}
+
+/**
+ * buildUserFlairTimeline
+ * - one line per snapshot where the user's flair differs from the previous snapshot
+ * - merged with the live changes recorded by the triggers, oldest first
+ */
+async function buildUserFlairTimeline(context: JobContext, username: string): Promise<string[]> {
+	const events: { at: number; line: string }[] = [];
+
+	const snapshots = [...(await getSnapshotIndex(context))].reverse(); // oldest first
+	let previous: string | null | undefined = undefined;
+	for (const info of snapshots) {
+		const text = (await getSnapshotUserFlair(context, info.id, username))?.flairText ?? null;
+		if (text !== previous) {
+			const line = previous === undefined ? `had ${describeFlair(text)} (oldest kept scan)` : `${describeFlair(previous)} → ${describeFlair(text)} (full scan)`;
+			events.push({ at: info.timestamp, line });
+		}
+		previous = text;
+	}
+
+	for (const entry of await getFlairHistory(context, username)) {
+		events.push({ at: entry.at, line: `${describeFlair(entry.from)} → ${describeFlair(entry.to)} (${entry.source})` });
+	}
+
+	return events.sort((a, b) => a.at - b.at).map(({ at, line }) => `• ${new Date(at).toLocaleString()}: ${line}`);
+}
+
+async function buildUserFlairReport(context: JobContext, username: string): Promise<string> {
+	const sections: string[] = [];
+	const hasResult = !!(await readManifest(context, "result"));
+	const stored = hasResult ? await getStoredUserFlair(context, username) : null;
+
+	if (stored) {
+		const others = (await readFlairCount(context, "result", stored.group)) - 1;
+		let template = "unknown";
+		if (stored.templateId) {
+			const info = (await getFlairTemplateInfos(context)).find((t) => t.id === stored.templateId);
+			template = info ? `"${info.text}" (${stored.templateId})` : `deleted template (${stored.templateId})`;
+		}
+		sections.push(
+			`Flair text: ${stored.flairText ? `"${stored.flairText}"` : NO_TEXT_FLAIR}\nTemplate: ${template}\nCSS class: ${stored.cssClass || "(none)"}\n` +
+				`Group: "${stored.group}", shared with ${formatNumberWithCommas(others)} other user${others === 1 ? "" : "s"}`
+		);
+	} else {
+		// not in the stored breakdown (no flair, or changed since): ask Reddit directly
+		const subreddit = await context.reddit.getCurrentSubreddit();
+		const live = (await subreddit.getUserFlair({ usernames: [username] })).users[0];
+		const note = hasResult ? "Not in any group of the last scan." : "No completed scan yet.";
+		sections.push(
+			live?.flairText || live?.flairCssClass
+				? `${note}\nCurrent flair on Reddit: ${describeFlair(live.flairText)}, CSS class: ${live.flairCssClass || "(none)"}`
+				: `${note}\nu/${username} has no user flair here.`
+		);
+	}
+
+	const timeline = await buildUserFlairTimeline(context, username);
+	sections.push(timeline.length > 0 ? `Flair history:\n${timeline.join("\n")}` : "No flair history recorded yet.");
+	return sections.join("\n\n");
+}
+
+/* ---------- Part 3: Form ---------- */
+
+const userLookupForm = Devvit.createForm(
+	(data) => ({
+		title: data.username ? `User Flair: u/${data.username}` : "Look Up User Flair",
+		acceptLabel: "Look Up",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "username",
+				type: "string",
+				label: "Username",
+				defaultValue: data.username ?? "",
+				required: true,
+			},
+			...(data.report
+				? [
+						{
+							name: "report",
+							type: "paragraph" as const,
+							label: "Flair",
+							defaultValue: data.report,
+							disabled: true,
+							lineHeight: 10,
+						},
+				  ]
+				: []),
+		],
+	}),
+	async ({ values }, context) => {
+		const username = normalizeUsername(values.username ?? "");
+		if (!username) {
+			context.ui.showToast("Enter a username.");
+			return;
+		}
+		try {
+			context.ui.showForm(userLookupForm, { username, report: await buildUserFlairReport(context, username) });
+		} catch (error) {
+			console.error(`Error looking up flair for u/${username}:`, error);
+			context.ui.showToast("Error looking up user flair (" + error + ")");
+		}
+	}
+);
+
+registerFlairFormAction({
+	value: "lookupUser",
+	label: "Look up user flair",
+	run: async (context) => context.ui.showForm(userLookupForm, {}),
+});
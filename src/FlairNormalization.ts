@@ -0,0 +1,180 @@
+import { JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { formatNumberWithCommas } from "./UserFlairs.js";
+
+/* ---------- Part 1: Rules ---------- */
+
+export type FlairNormalizeRule = "caseFold" | "collapseWhitespace" | "stripEmoji" | "stripEmojiCodes";
+
+export const FLAIR_NORMALIZE_RULE_OPTIONS: { label: string; value: FlairNormalizeRule }[] = [
+	{ label: "Ignore upper/lower case", value: "caseFold" },
+	{ label: "Collapse repeated whitespace", value: "collapseWhitespace" },
+	{ label: "Strip emoji (✅, 🔥, …)", value: "stripEmoji" },
+	{ label: "Strip :emoji: codes", value: "stripEmojiCodes" },
+];
+
+export interface FlairRegexRewrite {
+	pattern: RegExp;
+	replacement: string;
+}
+
+export interface FlairNormalizationRules {
+	rules: FlairNormalizeRule[];
+	rewrites: FlairRegexRewrite[];
+}
+
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\p{Emoji_Modifier}\u{1F1E6}-\u{1F1FF}\u200d\ufe0f\u20e3]/gu;
+const EMOJI_CODE_PATTERN = /:[\w+-]+:/g;
+
+/**
+ * parseRegexRewrites
+ * - one rewrite per line: `pattern => replacement`, or `/pattern/flags => replacement`
+ * - plain patterns are applied globally and case-insensitively
+ * - blank lines and lines starting with # are ignored
+ */
+export function parseRegexRewrites(text: string): { rewrites: FlairRegexRewrite[]; errors: string[] } {
+	const rewrites: FlairRegexRewrite[] = [];
+	const errors: string[] = [];
+	for (const [i, rawLine] of (text ?? "").split("\n").entries()) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+		const sep = line.indexOf("=>");
+		if (sep < 0) {
+			errors.push(`Line ${i + 1}: expected "pattern => replacement"`);
+			continue;
+		}
+		const source = line.slice(0, sep).trim();
+		const replacement = line.slice(sep + 2).trim();
+		const literal = /^\/(.+)\/([a-z]*)$/.exec(source);
+		try {
+			const flags = literal ? (literal[2].includes("g") ? literal[2] : literal[2] + "g") : "gi";
+			rewrites.push({ pattern: new RegExp(literal ? literal[1] : source, flags), replacement });
+		} catch (err) {
+			errors.push(`Line ${i + 1}: ${err instanceof Error ? err.message : err}`);
+		}
+	}
+	return { rewrites, errors };
+}
+
+export async function getNormalizationRules(context: JobContext): Promise<FlairNormalizationRules> {
+	const { flairNormalizeRules, flairNormalizeRewrites } = await getAppSettings(context);
+	return { rules: flairNormalizeRules as FlairNormalizeRule[], rewrites: parseRegexRewrites(flairNormalizeRewrites).rewrites };
+}
+
+/* normalizeFlairText: the cluster key for a raw flair text (rewrites run last, on the already-normalized text) */
+export function normalizeFlairText(text: string, { rules, rewrites }: FlairNormalizationRules): string {
+	let key = text;
+	if (rules.includes("stripEmojiCodes")) key = key.replace(EMOJI_CODE_PATTERN, " ");
+	if (rules.includes("stripEmoji")) key = key.replace(EMOJI_PATTERN, " ");
+	if (rules.includes("collapseWhitespace")) key = key.replace(/\s+/g, " ");
+	if (rules.includes("caseFold")) key = key.toLocaleLowerCase();
+	for (const { pattern, replacement } of rewrites) key = key.replace(pattern, replacement);
+	key = key.trim();
+	return key || text.trim();
+}
+
+/* ---------- Part 2: Clusters ---------- */
+
+export interface FlairCluster {
+	key: string;
+	total: number;
+	variants: Record<string, number>; // raw flair text → users
+}
+
+/* clusterFlairCounts: merge per-flair counts into normalized clusters, largest first */
+export function clusterFlairCounts(flairCounts: Record<string, number>, rules: FlairNormalizationRules): FlairCluster[] {
+	const clusters: Record<string, FlairCluster> = {};
+	for (const [flair, count] of Object.entries(flairCounts)) {
+		const key = normalizeFlairText(flair, rules);
+		const cluster = (clusters[key] ??= { key, total: 0, variants: {} });
+		cluster.total += count;
+		cluster.variants[flair] = count;
+	}
+	return Object.values(clusters).sort((a, b) => b.total - a.total);
+}
+
+function formatVariants(cluster: FlairCluster): string[] {
+	return Object.entries(cluster.variants)
+		.sort(([, a], [, b]) => b - a)
+		.map(([raw, count]) => `    ◦ "${raw}" — ${formatNumberWithCommas(count)}`);
+}
+
+export function formatFlairClusters(clusters: FlairCluster[], maxClusters = 100): string {
+	if (clusters.length === 0) return "No flair data available yet.";
+	const lines: string[] = [];
+	for (const cluster of clusters.slice(0, maxClusters)) {
+		const variantCount = Object.keys(cluster.variants).length;
+		lines.push(`• ${cluster.key} — ${formatNumberWithCommas(cluster.total)} user${cluster.total === 1 ? "" : "s"}`);
+		if (variantCount > 1) lines.push(...formatVariants(cluster));
+	}
+	if (clusters.length > maxClusters) lines.push(`…and ${clusters.length - maxClusters} more clusters`);
+	return lines.join("\n");
+}
+
+/* ---------- Part 3: Near-duplicate report ---------- */
+
+const NEAR_DUPLICATE_MAX_CLUSTERS = 400; // pairwise comparison is quadratic; only the largest clusters are compared
+
+/* letters and digits only, accents removed: "Verified!" and "vérified" share a skeleton */
+export function skeleton(key: string): string {
+	return key
+		.normalize("NFKD")
+		.replace(/\p{M}/gu, "")
+		.toLocaleLowerCase()
+		.replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+export function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const row = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+			rowMin = Math.min(rowMin, row[j]);
+		}
+		if (rowMin > max) return max + 1;
+		prev = row;
+	}
+	return prev[b.length];
+}
+
+/**
+ * formatNearDuplicateReport
+ * - clusters the rules merged from several raw variants
+ * - pairs of remaining clusters with the same skeleton or only a typo or two apart
+ */
+export function formatNearDuplicateReport(clusters: FlairCluster[]): string {
+	const sections: string[] = [];
+
+	const merged = clusters.filter((c) => Object.keys(c.variants).length > 1);
+	if (merged.length > 0) {
+		sections.push(
+			`Merged by the normalization rules (${formatNumberWithCommas(merged.length)}):\n` +
+				merged.map((c) => [`• ${c.key} — ${formatNumberWithCommas(c.total)}`, ...formatVariants(c)].join("\n")).join("\n")
+		);
+	}
+
+	const compared = clusters.slice(0, NEAR_DUPLICATE_MAX_CLUSTERS).map((c) => ({ cluster: c, skeleton: skeleton(c.key) }));
+	const pairs: string[] = [];
+	for (let i = 0; i < compared.length; i++) {
+		for (let j = i + 1; j < compared.length; j++) {
+			const a = compared[i];
+			const b = compared[j];
+			if (!a.skeleton || !b.skeleton) continue;
+			const maxDistance = Math.min(a.skeleton.length, b.skeleton.length) >= 8 ? 2 : 1;
+			const similar =
+				a.skeleton === b.skeleton || (Math.min(a.skeleton.length, b.skeleton.length) >= 4 && editDistance(a.skeleton, b.skeleton, maxDistance) <= maxDistance);
+			if (similar) {
+				pairs.push(`• "${a.cluster.key}" (${formatNumberWithCommas(a.cluster.total)}) ≈ "${b.cluster.key}" (${formatNumberWithCommas(b.cluster.total)})`);
+			}
+		}
+	}
+	if (pairs.length > 0) sections.push(`Likely the same flair (${formatNumberWithCommas(pairs.length)}):\n${pairs.join("\n")}`);
+	if (clusters.length > NEAR_DUPLICATE_MAX_CLUSTERS) {
+		sections.push(`Only the ${NEAR_DUPLICATE_MAX_CLUSTERS} largest of ${formatNumberWithCommas(clusters.length)} clusters were compared.`);
+	}
+
+	return sections.length > 0 ? sections.join("\n\n") : "No near-duplicate flairs found.";
+}
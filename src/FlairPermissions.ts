@@ -0,0 +1,126 @@
+import { Devvit, JobContext, ModeratorPermission } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { checkForModPerms } from "./RedditUtils.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Permission gates ---------- */
+
+/*
+ * Every User Flairs action falls in one of these, each with its own required-permissions setting:
+ *   view    open the results, drill-downs, lookups, breakdowns and reports
+ *   scan    start, continue, retry or rescan
+ *   export  export to modmail, publish to the wiki, post the dashboard
+ *   manage  cancel or reset a scan, bulk flair changes
+ */
+export type FlairPermissionAction = "view" | "scan" | "export" | "manage";
+
+export const MOD_PERMISSION_OPTIONS: { label: string; value: ModeratorPermission }[] = [
+	{ label: "Everything (all)", value: "all" },
+	{ label: "Manage flair", value: "flair" },
+	{ label: "Manage posts & comments", value: "posts" },
+	{ label: "Manage users (access)", value: "access" },
+	{ label: "Manage mod mail", value: "mail" },
+	{ label: "Manage settings (config)", value: "config" },
+	{ label: "Manage wiki pages", value: "wiki" },
+];
+
+export async function getRequiredPermissions(context: JobContext, action: FlairPermissionAction): Promise<ModeratorPermission[]> {
+	const settings = await getAppSettings(context);
+	const required: Record<FlairPermissionAction, string[]> = {
+		view: settings.flairPermsView,
+		scan: settings.flairPermsScan,
+		export: settings.flairPermsExport,
+		manage: settings.flairPermsManage,
+	};
+	return required[action] as ModeratorPermission[];
+}
+
+/* hasFlairPermission: whether the current mod may perform `action` (no toast, no audit entry) */
+export async function hasFlairPermission(context: Devvit.Context, action: FlairPermissionAction): Promise<boolean> {
+	const required = await getRequiredPermissions(context, action);
+	return required.length === 0 || (await checkForModPerms(context, required));
+}
+
+/**
+ * requireFlairPermission
+ * - true when the current mod has every permission the setting for `action` requires (none selected = any mod)
+ * - otherwise shows a toast, records the denial in the audit log and returns false
+ */
+export async function requireFlairPermission(context: Devvit.Context, action: FlairPermissionAction, description: string): Promise<boolean> {
+	const required = await getRequiredPermissions(context, action);
+	if (required.length === 0 || (await checkForModPerms(context, required))) return true;
+	context.ui.showToast(`You need the '${required.join("', '")}' mod permission${required.length === 1 ? "" : "s"} to ${description}.`);
+	await recordFlairAudit(context, { action: description, outcome: "denied", detail: `requires ${required.join(", ")}` });
+	return false;
+}
+
+/* ---------- Part 2: Audit log ---------- */
+
+export interface FlairAuditEntry {
+	at: number;
+	user: string; // moderator, or "scheduler" for background jobs
+	action: string;
+	outcome: "ok" | "denied" | "failed";
+	detail?: string;
+}
+
+const AUDIT_LOG_KEY = "flairAuditLog"; // sorted set scored by time, members are JSON FlairAuditEntry
+const MAX_AUDIT_ENTRIES = 500;
+const AUDIT_LOG_PREVIEW = 100;
+
+/* recordFlairAudit: append an entry (user defaults to the current mod); never throws */
+export async function recordFlairAudit(context: JobContext, entry: Omit<FlairAuditEntry, "at" | "user"> & { user?: string }) {
+	try {
+		const user = entry.user ?? (await context.reddit.getCurrentUsername()) ?? "scheduler";
+		const full: FlairAuditEntry = { at: Date.now(), ...entry, user };
+		await context.redis.zAdd(AUDIT_LOG_KEY, { member: JSON.stringify(full), score: full.at });
+		// keep only the newest MAX_AUDIT_ENTRIES
+		await context.redis.zRemRangeByRank(AUDIT_LOG_KEY, 0, -(MAX_AUDIT_ENTRIES + 1));
+		console.log(`Audit: u/${user} ${entry.action} → ${entry.outcome}${entry.detail ? ` (${entry.detail})` : ""}`);
+	} catch (err) {
+		console.error("Could not record audit entry:", entry, err);
+	}
+}
+
+/* newest first */
+export async function getFlairAuditLog(context: JobContext, limit = AUDIT_LOG_PREVIEW): Promise<FlairAuditEntry[]> {
+	const members = await context.redis.zRange(AUDIT_LOG_KEY, 0, limit - 1, { by: "rank", reverse: true });
+	return members.map(({ member }) => JSON.parse(member) as FlairAuditEntry);
+}
+
+function formatAuditEntry(entry: FlairAuditEntry): string {
+	const icon = entry.outcome === "ok" ? "✅" : entry.outcome === "denied" ? "⛔" : "❌";
+	return `${icon} ${new Date(entry.at).toLocaleString()} — u/${entry.user}: ${entry.action}${entry.detail ? ` (${entry.detail})` : ""}`;
+}
+
+/* ---------- Part 3: Form ---------- */
+
+const auditLogForm = Devvit.createForm(
+	(data) => ({
+		title: "User Flairs Audit Log",
+		acceptLabel: "Refresh",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "log",
+				type: "paragraph",
+				label: `Newest ${AUDIT_LOG_PREVIEW} entries`,
+				defaultValue: data.log,
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async (_, context) => {
+		await showFlairAuditLog(context);
+	}
+);
+
+export async function showFlairAuditLog(context: Devvit.Context) {
+	const entries = await getFlairAuditLog(context);
+	context.ui.showForm(auditLogForm, { log: entries.length > 0 ? entries.map(formatAuditEntry).join("\n") : "Nothing recorded yet." });
+}
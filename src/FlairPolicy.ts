@@ -0,0 +1,357 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { readManifest, scanUserFlairs, StoredUserFlair } from "./FlairScanStore.js";
+import { FlairTemplateInfo, getFlairTemplateInfos } from "./FlairBreakdowns.js";
+import { FlairBulkPlan, previewBulkChange, proposeBulkChange } from "./FlairBulkActions.js";
+import { recordFlairAudit, requireFlairPermission } from "./FlairPermissions.js";
+import {
+	formatDuration,
+	formatNumberWithCommas,
+	isTimeRemaining,
+	registerFlairFormAction,
+	registerScanCompletedHandler,
+	safeKVWrite,
+	startTimer,
+} from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+  redis: true,
+});
+
+/* ---------- Part 1: Rules ---------- */
+
+export type FlairPolicyFix = "off" | "reset" | "clear";
+
+export const FLAIR_POLICY_FIX_OPTIONS: { label: string; value: FlairPolicyFix }[] = [
+	{ label: "Off (report only)", value: "off" },
+	{ label: "Reset to the template's default text", value: "reset" },
+	{ label: "Clear the flair", value: "clear" },
+];
+
+interface FlairPolicyRules {
+	bannedWords: { word: string; pattern: RegExp }[];
+	patterns: RegExp[];
+	maxLength: number; // 0 = no limit
+	allowedTemplates: string[]; // template IDs or default texts, lower-cased; empty = any template
+	templates: FlairTemplateInfo[];
+}
+
+export interface FlairViolation {
+	flairText: string;
+	templateId?: string;
+	resetTemplateId?: string; // template to reset to, when the user's template is known and allowed
+	rules: string[];
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * parsePolicyPatterns
+ * - one regular expression per line, case-insensitive, or `/pattern/flags`
+ * - blank lines and lines starting with # are ignored
+ */
+export function parsePolicyPatterns(text: string): { patterns: RegExp[]; errors: string[] } {
+	const patterns: RegExp[] = [];
+	const errors: string[] = [];
+	for (const [i, rawLine] of (text ?? "").split("\n").entries()) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+		const literal = /^\/(.+)\/([a-z]*)$/.exec(line);
+		try {
+			patterns.push(literal ? new RegExp(literal[1], literal[2].replace("g", "")) : new RegExp(line, "i"));
+		} catch (err) {
+			errors.push(`Line ${i + 1}: ${err instanceof Error ? err.message : err}`);
+		}
+	}
+	return { patterns, errors };
+}
+
+function splitLines(text: string): string[] {
+	return (text ?? "")
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line && !line.startsWith("#"));
+}
+
+async function getPolicyRules(context: JobContext): Promise<FlairPolicyRules> {
+	const { flairPolicyBannedWords, flairPolicyPatterns, flairPolicyMaxLength, flairPolicyAllowedTemplates } = await getAppSettings(context);
+	const rules: FlairPolicyRules = {
+		// whole words only, so a banned "ass" doesn't flag "class"
+		bannedWords: splitLines(flairPolicyBannedWords).map((word) => ({
+			word,
+			pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(word)}(?![\\p{L}\\p{N}])`, "iu"),
+		})),
+		patterns: parsePolicyPatterns(flairPolicyPatterns).patterns,
+		maxLength: Math.max(0, flairPolicyMaxLength),
+		allowedTemplates: splitLines(flairPolicyAllowedTemplates).map((t) => t.toLocaleLowerCase()),
+		templates: [],
+	};
+	// templates are needed for the allowed-templates rule and to know what a reset would restore
+	if (hasAnyRule(rules)) rules.templates = await getFlairTemplateInfos(context);
+	return rules;
+}
+
+function hasAnyRule(rules: FlairPolicyRules): boolean {
+	return rules.bannedWords.length > 0 || rules.patterns.length > 0 || rules.maxLength > 0 || rules.allowedTemplates.length > 0;
+}
+
+function isAllowedTemplate(rules: FlairPolicyRules, template: FlairTemplateInfo): boolean {
+	return rules.allowedTemplates.length === 0 || rules.allowedTemplates.includes(template.id.toLocaleLowerCase()) || rules.allowedTemplates.includes(template.text.toLocaleLowerCase());
+}
+
+/* checkFlair: the broken rules for one user's flair, or null when it passes */
+export function checkFlair(record: StoredUserFlair, rules: FlairPolicyRules): FlairViolation | null {
+	const text = record.flairText ?? "";
+	const broken: string[] = [];
+	for (const { word, pattern } of rules.bannedWords) if (pattern.test(text)) broken.push(`banned word "${word}"`);
+	for (const pattern of rules.patterns) if (pattern.test(text)) broken.push(`matches ${pattern}`);
+	if (rules.maxLength > 0 && [...text].length > rules.maxLength) broken.push(`longer than ${rules.maxLength} characters`);
+
+	// the listing has no template ID; where the scan couldn't infer one, fall back to the text
+	const template = record.templateId
+		? rules.templates.find((t) => t.id === record.templateId)
+		: rules.templates.filter((t) => t.text === text.trim()).length === 1
+		? rules.templates.find((t) => t.text === text.trim())
+		: undefined;
+	if (rules.allowedTemplates.length > 0 && (text || record.templateId)) {
+		if (template ? !isAllowedTemplate(rules, template) : !rules.templates.some((t) => t.text === text.trim() && isAllowedTemplate(rules, t))) {
+			broken.push(template ? `template "${template.text || template.id}" not allowed` : "not from an allowed template");
+		}
+	}
+
+	if (broken.length === 0) return null;
+	return {
+		flairText: text,
+		templateId: template?.id,
+		resetTemplateId: template && isAllowedTemplate(rules, template) ? template.id : undefined,
+		rules: broken,
+	};
+}
+
+/* ---------- Part 2: Resumable check job ---------- */
+
+interface PolicyCheckState {
+	cursor: number; // checkpoint: hScan cursor over the result's user records
+	checked: number;
+	violations: number;
+	startedBy: string;
+	startedAt: number;
+	finishedAt?: number;
+}
+
+const CHECK_JOB_NAME = "flairPolicyCheckChunk";
+const CHECK_STATE_KEY = "flairPolicyCheckState";
+const VIOLATIONS_KEY = "flairPolicyViolations"; // hash: username → JSON FlairViolation (from the last check)
+const REPORT_LINES = 200;
+const MODMAIL_USER_COUNT = 50; // users named in the auto-fix modmail
+
+async function getPolicyCheckState(context: JobContext): Promise<PolicyCheckState | null> {
+	const raw = await context.kvStore.get(CHECK_STATE_KEY);
+	return raw ? (raw as unknown as PolicyCheckState) : null;
+}
+
+export async function getFlairViolations(context: JobContext): Promise<Record<string, FlairViolation>> {
+	const raw = await context.redis.hGetAll(VIOLATIONS_KEY);
+	return Object.fromEntries(Object.entries(raw ?? {}).map(([username, json]) => [username, JSON.parse(json) as FlairViolation]));
+}
+
+/* startPolicyCheck: check every stored user's flair in the background; returns false when there is nothing to check */
+export async function startPolicyCheck(context: JobContext, startedBy: string): Promise<boolean> {
+	if (!hasAnyRule(await getPolicyRules(context)) || !(await readManifest(context, "result"))) return false;
+	await context.redis.del(VIOLATIONS_KEY);
+	const state: PolicyCheckState = { cursor: 0, checked: 0, violations: 0, startedBy, startedAt: Date.now() };
+	await safeKVWrite(context, CHECK_STATE_KEY, state);
+	await context.scheduler.runJob({ name: CHECK_JOB_NAME, runAt: new Date() });
+	return true;
+}
+
+Devvit.addSchedulerJob({
+	name: CHECK_JOB_NAME,
+	onRun: async (_, context) => {
+		const state = await getPolicyCheckState(context);
+		if (!state || state.finishedAt) return;
+
+		const { devvitExecutionTimeoutSeconds } = await getAppSettings(context);
+		const rules = await getPolicyRules(context);
+		const chunkStart = startTimer();
+
+		do {
+			const page = await scanUserFlairs(context, "result", state.cursor);
+			const found: Record<string, string> = {};
+			for (const [username, record] of Object.entries(page.records)) {
+				const violation = checkFlair(record, rules);
+				if (violation) found[username] = JSON.stringify(violation);
+			}
+			if (Object.keys(found).length > 0) await context.redis.hSet(VIOLATIONS_KEY, found);
+			state.checked += Object.keys(page.records).length;
+			state.violations += Object.keys(found).length;
+			state.cursor = page.cursor;
+			if (state.cursor === 0) state.finishedAt = Date.now();
+			await safeKVWrite(context, CHECK_STATE_KEY, state);
+		} while (!state.finishedAt && isTimeRemaining(chunkStart, devvitExecutionTimeoutSeconds));
+
+		if (!state.finishedAt) {
+			await context.scheduler.runJob({ name: CHECK_JOB_NAME, runAt: new Date(Date.now() + 2000) });
+			return;
+		}
+
+		console.log(`Flair policy check finished: ${state.violations} violations in ${state.checked} flairs`);
+		await recordFlairAudit(context, {
+			user: state.startedBy,
+			action: "flair policy check finished",
+			outcome: "ok",
+			detail: `${formatNumberWithCommas(state.violations)} violations in ${formatNumberWithCommas(state.checked)} flairs`,
+		});
+
+		const { flairPolicyAutoFix } = await getAppSettings(context);
+		if (flairPolicyAutoFix !== "off" && state.violations > 0) await proposePolicyFix(context, flairPolicyAutoFix as FlairPolicyFix);
+	},
+});
+
+registerScanCompletedHandler("policy", async (context) => {
+	if (await startPolicyCheck(context, "scheduler")) console.log("Queued flair policy check after scan.");
+});
+
+/* ---------- Part 3: Report and fixes ---------- */
+
+async function buildFixPlan(context: JobContext, fix: FlairPolicyFix): Promise<FlairBulkPlan> {
+	const violations = await getFlairViolations(context);
+	const users = Object.keys(violations);
+	const plan: FlairBulkPlan = {
+		sourceFlair: "",
+		label: `${formatNumberWithCommas(users.length)} flair${users.length === 1 ? "" : "s"} breaking the flair policy`,
+		mode: fix === "reset" ? "reset" : "clear",
+		templateId: null,
+		templateText: null,
+		users,
+	};
+	if (fix === "reset") {
+		plan.userTemplates = {};
+		for (const [username, violation] of Object.entries(violations)) if (violation.resetTemplateId) plan.userTemplates[username] = violation.resetTemplateId;
+		plan.templateTexts = Object.fromEntries((await getFlairTemplateInfos(context)).map((t) => [t.id, t.text]));
+	}
+	return plan;
+}
+
+/* proposePolicyFix: store the fix as a bulk change waiting for a mod, and tell the mod team in Mod Discussions */
+async function proposePolicyFix(context: JobContext, fix: FlairPolicyFix) {
+	const plan = await buildFixPlan(context, fix);
+	await proposeBulkChange(context, plan, "flair policy auto-fix");
+
+	const sample = plan.users.slice(0, MODMAIL_USER_COUNT).map((u) => `u/${u}`);
+	if (plan.users.length > MODMAIL_USER_COUNT) sample.push(`…and ${formatNumberWithCommas(plan.users.length - MODMAIL_USER_COUNT)} more`);
+	const action = fix === "reset" ? "reset to their template's default text (or cleared, without an allowed template)" : "cleared";
+	await context.reddit.modMail.createModDiscussionConversation({
+		subject: `Flair Fax: ${formatNumberWithCommas(plan.users.length)} flair${plan.users.length === 1 ? "" : "s"} break the flair policy`,
+		bodyMarkdown:
+			`The last flair policy check found ${formatNumberWithCommas(plan.users.length)} flair${plan.users.length === 1 ? "" : "s"} breaking the policy. ` +
+			`They are ready to be ${action}, but nothing has been changed yet.\n\n` +
+			`Users: ${sample.join(", ")}\n\n` +
+			`To apply or discard this, open "User Flairs" in the subreddit menu and pick "Bulk reassign or clear a flair group" under More actions.`,
+		subredditId: context.subredditId,
+	});
+	await recordFlairAudit(context, { user: "scheduler", action: "propose flair policy fix", outcome: "ok", detail: plan.label });
+}
+
+function formatViolationReport(violations: Record<string, FlairViolation>): string {
+	const entries = Object.entries(violations);
+	if (entries.length === 0) return "No flair breaks the policy.";
+
+	const byRule: Record<string, number> = {};
+	for (const [, v] of entries) for (const rule of v.rules) byRule[rule] = (byRule[rule] ?? 0) + 1;
+	const summary = Object.entries(byRule)
+		.sort(([, a], [, b]) => b - a)
+		.map(([rule, count]) => `• ${rule}: ${formatNumberWithCommas(count)}`)
+		.join("\n");
+
+	const lines = entries
+		.sort(([a], [b]) => a.localeCompare(b))
+		.slice(0, REPORT_LINES)
+		.map(([username, v]) => `• u/${username}: "${v.flairText}" — ${v.rules.join("; ")}`);
+	if (entries.length > REPORT_LINES) lines.push(`…and ${formatNumberWithCommas(entries.length - REPORT_LINES)} more`);
+	return `${formatNumberWithCommas(entries.length)} flair${entries.length === 1 ? "" : "s"} break the policy:\n${summary}\n\n${lines.join("\n")}`;
+}
+
+function describePolicyCheck(state: PolicyCheckState | null): string {
+	if (!state) return "No policy check yet.";
+	const elapsed = formatDuration((state.finishedAt ?? Date.now()) - state.startedAt);
+	return state.finishedAt
+		? `🟢 Last check by ${state.startedBy === "scheduler" ? "scheduler" : `u/${state.startedBy}`} (${new Date(state.startedAt).toLocaleString()}, took ${elapsed})`
+		: `🟡 Checking… ${formatNumberWithCommas(state.checked)} flairs so far (⏱️ ${elapsed})`;
+}
+
+const policyReportForm = Devvit.createForm(
+	(data) => ({
+		title: "Flair Policy Violations",
+		acceptLabel: "Continue",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "report",
+				type: "paragraph",
+				label: data.status,
+				defaultValue: data.report,
+				disabled: true,
+				lineHeight: 10,
+			},
+			{
+				name: "next",
+				type: "select",
+				label: "Then",
+				options: [
+					{ label: "Refresh this report", value: "refresh" },
+					{ label: "Check every flair again now", value: "recheck" },
+					...(data.hasViolations
+						? [
+								{ label: "Dry run: reset these flairs to their template's default text", value: "reset" },
+								{ label: "Dry run: clear these flairs", value: "clear" },
+						  ]
+						: []),
+				],
+				defaultValue: ["refresh"],
+				multiSelect: false,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		try {
+			const next = values.next?.[0] ?? "refresh";
+			if (next === "recheck") {
+				if (!(await requireFlairPermission(context, "scan", "check flairs against the policy"))) return;
+				if (!(await startPolicyCheck(context, (await context.reddit.getCurrentUsername()) ?? "unknown"))) {
+					context.ui.showToast("Set up flair policy rules in the app settings and complete a scan first.");
+					return;
+				}
+				await recordFlairAudit(context, { action: "start flair policy check", outcome: "ok" });
+				context.ui.showToast("Checking every flair against the policy in the background");
+			} else if (next === "reset" || next === "clear") {
+				if (!(await requireFlairPermission(context, "manage", "fix flairs that break the policy"))) return;
+				await previewBulkChange(context, await buildFixPlan(context, next));
+				return;
+			}
+			await showPolicyReport(context);
+		} catch (error) {
+			console.error("Error handling flair policy report:", error);
+			context.ui.showToast("Error handling flair policy report (" + error + ")");
+		}
+	}
+);
+
+async function showPolicyReport(context: Devvit.Context) {
+	const state = await getPolicyCheckState(context);
+	const violations = await getFlairViolations(context);
+	context.ui.showForm(policyReportForm, {
+		status: describePolicyCheck(state),
+		report: formatViolationReport(violations),
+		hasViolations: Object.keys(violations).length > 0 && !!state?.finishedAt,
+	});
+}
+
+registerFlairFormAction({
+	value: "policyReport",
+	label: "Flair policy violations",
+	run: showPolicyReport,
+});
@@ -0,0 +1,218 @@
+import { Devvit } from "@devvit/public-api";
+import { formatNumberWithCommas, getCompletedScanResult, getFlairBreakdown, registerFlairFormAction } from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+});
+
+/* ---------- Part 1: Parsing ---------- */
+
+type TextMatcher = (text: string) => boolean;
+
+export interface FlairQuery {
+	flairs: TextMatcher[]; // any of these (OR)
+	notFlairs: TextMatcher[]; // none of these
+	users: TextMatcher[]; // groups keep only users matching any of these
+	notUsers: TextMatcher[]; // ...and none of these
+	counts: ((size: number) => boolean)[]; // every one of these, on the whole group's size
+}
+
+const COUNT_TERM = /^count(>=|<=|!=|>|<|=)(\d+)$/i;
+const FIELD_TERM = /^(-?)(flair|user):(.*)$/is;
+
+/* split on whitespace, keeping "quoted values" and /regex literals/ in one token; an unclosed /regex is an error */
+function tokenize(text: string): { tokens: string[]; errors: string[] } {
+	const tokens: string[] = [];
+	const errors: string[] = [];
+	let i = 0;
+	while (i < text.length) {
+		if (/\s/.test(text[i])) {
+			i++;
+			continue;
+		}
+		let token = "";
+		while (i < text.length && !/\s/.test(text[i])) {
+			if (text[i] === '"') {
+				const end = text.indexOf('"', i + 1);
+				const stop = end < 0 ? text.length : end + 1;
+				token += text.slice(i, stop);
+				i = stop;
+			} else if (text[i] === "/" && /^-?((flair|user):)?$/i.test(token)) {
+				let j = i + 1;
+				while (j < text.length && text[j] !== "/") j += text[j] === "\\" ? 2 : 1;
+				if (j >= text.length) {
+					errors.push(`"${token}${text.slice(i)}": unterminated /pattern/`);
+					token = "";
+					i = text.length;
+					break;
+				}
+				j++;
+				while (j < text.length && /[a-z]/i.test(text[j])) j++;
+				token += text.slice(i, j);
+				i = j;
+			} else {
+				token += text[i++];
+			}
+		}
+		if (token) tokens.push(token);
+	}
+	return { tokens, errors };
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * parseTextMatcher
+ * - `/pattern/flags`: regular expression
+ * - `"Exact Text"` or `Exact`: whole text, any case
+ * - `*` wildcards: `Team*`, `*mod*`
+ */
+function parseTextMatcher(value: string): TextMatcher {
+	const literal = /^\/(.*)\/([a-z]*)$/s.exec(value);
+	if (literal) {
+		const pattern = new RegExp(literal[1], literal[2].replace("g", ""));
+		return (text) => pattern.test(text);
+	}
+	const unquoted = value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+	const pattern = new RegExp(`^${unquoted.split("*").map(escapeRegex).join(".*")}$`, "i");
+	return (text) => pattern.test(text.trim());
+}
+
+/**
+ * parseFlairQuery
+ * - `flair:X` / `-flair:X` (several flair terms match any of them; `OR` between them is optional)
+ * - `user:X` / `-user:X` for usernames
+ * - `count>=N` (also >, <, <=, =, !=) on the group size
+ * - anything else is a case-insensitive substring of the flair text (`-word` excludes), or a bare `/pattern/`
+ */
+export function parseFlairQuery(text: string): { query: FlairQuery; errors: string[] } {
+	const query: FlairQuery = { flairs: [], notFlairs: [], users: [], notUsers: [], counts: [] };
+	const { tokens, errors } = tokenize(text ?? "");
+	for (const token of tokens) {
+		if (token.toUpperCase() === "OR" || token === "|") continue;
+		try {
+			const count = COUNT_TERM.exec(token);
+			if (count) {
+				const n = parseInt(count[2], 10);
+				const compare: Record<string, (size: number) => boolean> = {
+					">=": (size) => size >= n,
+					"<=": (size) => size <= n,
+					"!=": (size) => size !== n,
+					">": (size) => size > n,
+					"<": (size) => size < n,
+					"=": (size) => size === n,
+				};
+				query.counts.push(compare[count[1]]);
+				continue;
+			}
+			const field = FIELD_TERM.exec(token);
+			if (field) {
+				if (!field[3]) throw new Error("missing value");
+				const matcher = parseTextMatcher(field[3]);
+				const negated = field[1] === "-";
+				if (field[2].toLowerCase() === "flair") (negated ? query.notFlairs : query.flairs).push(matcher);
+				else (negated ? query.notUsers : query.users).push(matcher);
+				continue;
+			}
+			const negated = token.startsWith("-") && token.length > 1;
+			const bare = negated ? token.slice(1) : token;
+			if (/^\/.*\/[a-z]*$/s.test(bare)) {
+				(negated ? query.notFlairs : query.flairs).push(parseTextMatcher(bare));
+				continue;
+			}
+			const word = bare.replace(/^"(.*)"$/s, "$1").toLocaleLowerCase();
+			(negated ? query.notFlairs : query.flairs).push((text) => text.toLocaleLowerCase().includes(word));
+		} catch (err) {
+			errors.push(`"${token}": ${err instanceof Error ? err.message : err}`);
+		}
+	}
+	return { query, errors };
+}
+
+/* ---------- Part 2: Running ---------- */
+
+/* runFlairQuery: the flair groups (and, with user terms, the users in them) that match */
+export function runFlairQuery(flairGroups: Record<string, string[]>, query: FlairQuery): Record<string, string[]> {
+	const matches: Record<string, string[]> = {};
+	for (const [flair, users] of Object.entries(flairGroups)) {
+		if (query.flairs.length > 0 && !query.flairs.some((m) => m(flair))) continue;
+		if (query.notFlairs.some((m) => m(flair))) continue;
+		if (!query.counts.every((c) => c(users.length))) continue;
+		const kept = users.filter((u) => (query.users.length === 0 || query.users.some((m) => m(u))) && !query.notUsers.some((m) => m(u)));
+		if (kept.length > 0) matches[flair] = kept;
+	}
+	return matches;
+}
+
+/* ---------- Part 3: Form ---------- */
+
+const QUERY_MAX_FLAIRS = 50;
+const QUERY_MAX_USERS_PER_FLAIR = 50;
+const QUERY_HELP = 'e.g. flair:/^Team/ -flair:Staff count>=10 · flair:"Verified Expert" OR flair:Mod* · user:*bot';
+
+const flairQueryForm = Devvit.createForm(
+	(data) => ({
+		title: "Query User Flairs",
+		acceptLabel: "Search",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "query",
+				type: "string",
+				label: "Query",
+				defaultValue: data.query ?? "",
+				helpText: QUERY_HELP,
+			},
+			{
+				name: "results",
+				type: "paragraph",
+				label: data.summary ?? "Matches",
+				defaultValue: data.results ?? "",
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		await showFlairQueryForm(context, values.query ?? "");
+	}
+);
+
+async function showFlairQueryForm(context: Devvit.Context, text: string) {
+	try {
+		if (!text.trim()) {
+			context.ui.showForm(flairQueryForm, { query: "", summary: "Matches", results: "Enter a query and press Search." });
+			return;
+		}
+		const { query, errors } = parseFlairQuery(text);
+		if (errors.length > 0) {
+			context.ui.showForm(flairQueryForm, { query: text, summary: "Query error", results: errors.join("\n") });
+			return;
+		}
+
+		// runs on the stored result; nothing is rescanned
+		const result = await getCompletedScanResult(context);
+		if (!result) {
+			context.ui.showToast("No completed scan yet.");
+			return;
+		}
+		const matches = Object.entries(runFlairQuery(result.flairGroups, query)).sort(([, a], [, b]) => b.length - a.length);
+		const userCount = matches.reduce((sum, [, users]) => sum + users.length, 0);
+		const summary = `${formatNumberWithCommas(matches.length)} flair${matches.length === 1 ? "" : "s"}, ${formatNumberWithCommas(userCount)} user${userCount === 1 ? "" : "s"}`;
+
+		let results = getFlairBreakdown(Object.fromEntries(matches.slice(0, QUERY_MAX_FLAIRS)), QUERY_MAX_USERS_PER_FLAIR);
+		if (matches.length > QUERY_MAX_FLAIRS) results += `\n\n…and ${formatNumberWithCommas(matches.length - QUERY_MAX_FLAIRS)} more flairs`;
+		context.ui.showForm(flairQueryForm, { query: text, summary, results: results || "Nothing matches." });
+	} catch (error) {
+		console.error("Error running flair query:", error);
+		context.ui.showToast("Error running flair query (" + error + ")");
+	}
+}
+
+registerFlairFormAction({
+	value: "query",
+	label: "Query flairs and users (flair:, user:, count>=…)",
+	run: (context) => showFlairQueryForm(context, ""),
+});
@@ -0,0 +1,183 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { formatDuration, formatNumberWithCommas, safeKVDelete, safeKVWrite } from "./UserFlairs.js";
+
+/* ---------- Part 1: Run records ---------- */
+
+export type ScanRunOutcome = "running" | "completed" | "cancelled" | "failed" | "reset";
+
+export interface ScanRunRecord {
+	runId: string; // scan start timestamp
+	startedAt: number;
+	startedBy: string; // moderator, or "scheduler"
+	endedAt?: number;
+	outcome: ScanRunOutcome;
+	chunks: number;
+	pages: number; // listing pages fetched
+	scannedUsers: number;
+	uniqueFlairs: number;
+	failures: number;
+	retries: number;
+	pageRetries?: number; // page fetches retried after a transient error (rate limit, 5xx, timeout)
+	lastError?: string;
+}
+
+const CURRENT_RUN_KEY = "flairScanRun";
+const RUN_HISTORY_KEY = "flairScanRunHistory"; // newest first
+const MAX_RUN_HISTORY = 50;
+
+async function getCurrentRun(context: JobContext): Promise<ScanRunRecord | null> {
+	const raw = await context.kvStore.get(CURRENT_RUN_KEY);
+	return raw ? (raw as unknown as ScanRunRecord) : null;
+}
+
+export async function getScanRunHistory(context: JobContext): Promise<ScanRunRecord[]> {
+	const raw = await context.kvStore.get(RUN_HISTORY_KEY);
+	return Array.isArray(raw) ? (raw as unknown as ScanRunRecord[]) : [];
+}
+
+/* the history holds one entry per run: a failed run that is retried later is updated in place */
+async function upsertRunHistory(context: JobContext, run: ScanRunRecord) {
+	const history = (await getScanRunHistory(context)).filter((r) => r.runId !== run.runId);
+	history.unshift(run);
+	await safeKVWrite(context, RUN_HISTORY_KEY, history.slice(0, MAX_RUN_HISTORY));
+}
+
+/* beginScanRun: a fresh scan started; any unfinished previous run is closed as cancelled */
+export async function beginScanRun(context: JobContext, startedAt: number, startedBy: string) {
+	const previous = await getCurrentRun(context);
+	if (previous && previous.outcome !== "failed") await upsertRunHistory(context, { ...previous, outcome: "cancelled", endedAt: Date.now() });
+
+	const run: ScanRunRecord = {
+		runId: String(startedAt),
+		startedAt,
+		startedBy,
+		outcome: "running",
+		chunks: 0,
+		pages: 0,
+		scannedUsers: 0,
+		uniqueFlairs: 0,
+		failures: 0,
+		retries: 0,
+		pageRetries: 0,
+	};
+	await safeKVWrite(context, CURRENT_RUN_KEY, run);
+	await upsertRunHistory(context, run);
+}
+
+/* noteScanRetry: an existing partial scan was resumed (retry after a failure, or a stalled job chain restarted) */
+export async function noteScanRetry(context: JobContext) {
+	const run = await getCurrentRun(context);
+	if (!run) return;
+	run.retries++;
+	run.outcome = "running";
+	delete run.endedAt;
+	await safeKVWrite(context, CURRENT_RUN_KEY, run);
+	await upsertRunHistory(context, run);
+}
+
+/* recordScanChunk: add one chunk's work (and its backed-off page retries) to the current run */
+export async function recordScanChunk(context: JobContext, pages: number, scannedUsers: number, uniqueFlairs: number, pageRetries = 0) {
+	const run = await getCurrentRun(context);
+	if (!run) return;
+	run.chunks++;
+	run.pages += pages;
+	run.pageRetries = (run.pageRetries ?? 0) + pageRetries;
+	run.scannedUsers = scannedUsers;
+	run.uniqueFlairs = uniqueFlairs;
+	await safeKVWrite(context, CURRENT_RUN_KEY, run);
+}
+
+/* recordScanFailure: the run stopped on an error; it stays current so a retry continues it */
+export async function recordScanFailure(context: JobContext, error: string) {
+	const run = await getCurrentRun(context);
+	if (!run) return;
+	run.failures++;
+	run.outcome = "failed";
+	run.endedAt = Date.now();
+	run.lastError = error;
+	await safeKVWrite(context, CURRENT_RUN_KEY, run);
+	await upsertRunHistory(context, run);
+}
+
+/* finishScanRun: close the current run (completed, cancelled or reset) */
+export async function finishScanRun(context: JobContext, outcome: Exclude<ScanRunOutcome, "running" | "failed">) {
+	const run = await getCurrentRun(context);
+	if (!run) return;
+	await upsertRunHistory(context, { ...run, outcome, endedAt: Date.now() });
+	await safeKVDelete(context, CURRENT_RUN_KEY);
+}
+
+/* ---------- Part 2: Formatting and form ---------- */
+
+const OUTCOME_ICONS: Record<ScanRunOutcome, string> = {
+	running: "🟡",
+	completed: "🟢",
+	cancelled: "⚪️",
+	failed: "❌",
+	reset: "🔄",
+};
+
+function formatRun(run: ScanRunRecord): string {
+	const duration = formatDuration((run.endedAt ?? Date.now()) - run.startedAt);
+	const extras = [
+		run.failures > 0 ? `${run.failures} failure${run.failures === 1 ? "" : "s"}` : "",
+		run.retries > 0 ? `${run.retries} retr${run.retries === 1 ? "y" : "ies"}` : "",
+		run.pageRetries ? `${run.pageRetries} page retr${run.pageRetries === 1 ? "y" : "ies"}` : "",
+	].filter(Boolean);
+	return (
+		`${OUTCOME_ICONS[run.outcome]} ${new Date(run.startedAt).toLocaleString()} by ${run.startedBy === "scheduler" ? "scheduler" : `u/${run.startedBy}`} — ` +
+		`${run.outcome} after ${duration}\n` +
+		`    ${formatNumberWithCommas(run.scannedUsers)} users, ${formatNumberWithCommas(run.uniqueFlairs)} flairs, ` +
+		`${formatNumberWithCommas(run.chunks)} chunks, ${formatNumberWithCommas(run.pages)} pages` +
+		(extras.length > 0 ? ` (${extras.join(", ")})` : "") +
+		(run.outcome === "failed" && run.lastError ? `\n    Last error: ${run.lastError}` : "")
+	);
+}
+
+function formatRunSummary(history: ScanRunRecord[]): string {
+	const completed = history.filter((r) => r.outcome === "completed" && r.endedAt);
+	if (completed.length === 0) return `${history.length} run${history.length === 1 ? "" : "s"} recorded, none completed yet.`;
+	const avgMs = completed.reduce((sum, r) => sum + (r.endedAt! - r.startedAt), 0) / completed.length;
+	const avgUsers = completed.reduce((sum, r) => sum + r.scannedUsers, 0) / completed.length;
+	return (
+		`${completed.length} of ${history.length} runs completed, taking ${formatDuration(avgMs)} on average ` +
+		`for ${formatNumberWithCommas(Math.round(avgUsers))} users (latest: ${formatDuration(completed[0].endedAt! - completed[0].startedAt)}).`
+	);
+}
+
+const scanRunHistoryForm = Devvit.createForm(
+	(data) => ({
+		title: "Flair Scan Run History",
+		acceptLabel: "Refresh",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "summary",
+				type: "paragraph",
+				label: "Summary",
+				defaultValue: data.summary,
+				disabled: true,
+				lineHeight: 3,
+			},
+			{
+				name: "runs",
+				type: "paragraph",
+				label: `Runs (newest first, last ${MAX_RUN_HISTORY} kept)`,
+				defaultValue: data.runs,
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async (_, context) => {
+		await showScanRunHistory(context);
+	}
+);
+
+export async function showScanRunHistory(context: Devvit.Context) {
+	const history = await getScanRunHistory(context);
+	context.ui.showForm(scanRunHistoryForm, {
+		summary: formatRunSummary(history),
+		runs: history.length > 0 ? history.map(formatRun).join("\n") : "No scans recorded yet.",
+	});
+}
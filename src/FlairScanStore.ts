@@ -0,0 +1,315 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+
+Devvit.configure({
+  redis: true,
+});
+
+/*
+ * Sharded storage for flair scans.
+ *
+ * Each scan "slot" (the in-progress partial, the completed result, or a snapshot) is spread over a few Redis keys
+ * so no single value grows with the subreddit:
+ *   flairScan:<slot>:manifest  JSON string: cursor, timestamps, totals
+ *   flairScan:<slot>:counts    hash  flair text → number of users
+ *   flairScan:<slot>:groups    hash  "<bucket>:<flair text>" → JSON array of up to GROUP_BUCKET_SIZE usernames
+ *   flairScan:<slot>:users     hash  username → JSON StoredUserFlair
+ * A flair with N users occupies buckets 0..ceil(N / GROUP_BUCKET_SIZE) - 1, so appends only touch the last bucket.
+ */
+
+/* ---------- Part 1: Types ---------- */
+
+export interface FlairScanManifest {
+	after: string | null;
+	timestamp: number; // scan start timestamp (ms)
+	completed: boolean;
+	scannedUsers: number; // users counted in a flair group
+	seenUsers?: number; // every user in the flair listing, counted or not
+	duplicateRecords?: number; // listing rows for a user already recorded (latest record kept)
+	movedRecords?: number; // ...of which put the user in a different group than before
+	emptyPages?: number[]; // page numbers that came back empty but still had a next cursor
+	lastPageNumber?: number; // pages fetched and checkpointed so far
+	fetchAttempts?: number; // consecutive failed attempts at the `after` cursor (reset by the next good page)
+	toastShown?: boolean;
+	formatVersion?: number; // SCAN_STORAGE_FORMAT when written (missing means 1)
+}
+
+export interface FlairScanResult extends FlairScanManifest {
+	// Maps flair text → array of usernames
+	flairGroups: Record<string, string[]>;
+	// Maps username → flair CSS class (only users that have one)
+	flairCssClasses?: Record<string, string>;
+	// Maps username → flair template ID (only users whose template is known)
+	flairTemplateIds?: Record<string, string>;
+}
+
+export interface StoredUserFlair {
+	flairText: string;
+	cssClass?: string;
+	templateId?: string;
+	group?: string; // the group they're counted in, when it isn't flairText (e.g. a "(no text)" group)
+}
+
+export type ScanSlot = "partial" | "result" | `snapshot:${string}`;
+
+type SlotPart = "manifest" | "counts" | "groups" | "users";
+
+/* bump when a change to the stored slots means data written by older versions can't be read */
+export const SCAN_STORAGE_FORMAT = 1;
+
+const SLOT_PARTS: SlotPart[] = ["manifest", "counts", "groups", "users"];
+const GROUP_BUCKET_SIZE = 2000;
+const HASH_PAGE_SIZE = 500; // fields per hScan page / hSet batch
+
+function slotKey(slot: ScanSlot, part: SlotPart) {
+	return `flairScan:${slot}:${part}`;
+}
+
+function bucketField(flair: string, bucket: number) {
+	return `${bucket}:${flair}`;
+}
+
+function parseBucketField(field: string): { bucket: number; flair: string } {
+	const sep = field.indexOf(":");
+	return { bucket: Number(field.slice(0, sep)), flair: field.slice(sep + 1) };
+}
+
+function bucketCount(users: number) {
+	return Math.ceil(users / GROUP_BUCKET_SIZE);
+}
+
+/* hSet in batches so one call never carries a huge payload */
+async function hSetBatched(context: JobContext, key: string, fieldValues: Record<string, string>) {
+	const entries = Object.entries(fieldValues);
+	for (let i = 0; i < entries.length; i += HASH_PAGE_SIZE) {
+		await context.redis.hSet(key, Object.fromEntries(entries.slice(i, i + HASH_PAGE_SIZE)));
+	}
+}
+
+/* page through a whole hash with hScan */
+async function forEachHashField(context: JobContext, key: string, callback: (field: string, value: string) => void) {
+	let cursor = 0;
+	do {
+		const page = await context.redis.hScan(key, cursor, undefined, HASH_PAGE_SIZE);
+		for (const { field, value } of page.fieldValues) callback(field, value);
+		cursor = page.cursor;
+	} while (cursor !== 0);
+}
+
+/* ---------- Part 2: Manifest and counts ---------- */
+
+export async function readManifest(context: JobContext, slot: ScanSlot): Promise<FlairScanManifest | null> {
+	const raw = await context.redis.get(slotKey(slot, "manifest"));
+	return raw ? (JSON.parse(raw) as FlairScanManifest) : null;
+}
+
+export async function writeManifest(context: JobContext, slot: ScanSlot, manifest: FlairScanManifest) {
+	await context.redis.set(slotKey(slot, "manifest"), JSON.stringify({ ...manifest, formatVersion: SCAN_STORAGE_FORMAT }));
+}
+
+/* flair text → user count, without loading any usernames */
+export async function readFlairCounts(context: JobContext, slot: ScanSlot): Promise<Record<string, number>> {
+	const counts: Record<string, number> = {};
+	for (const [flair, raw] of Object.entries(await context.redis.hGetAll(slotKey(slot, "counts")))) {
+		const count = Number(raw);
+		if (count > 0) counts[flair] = count;
+	}
+	return counts;
+}
+
+export async function readFlairCount(context: JobContext, slot: ScanSlot, flair: string): Promise<number> {
+	return Number((await context.redis.hGet(slotKey(slot, "counts"), flair)) ?? 0);
+}
+
+/* ---------- Part 3: Flair groups ---------- */
+
+export async function readFlairGroup(context: JobContext, slot: ScanSlot, flair: string): Promise<string[]> {
+	const count = await readFlairCount(context, slot, flair);
+	if (count <= 0) return [];
+	const fields = Array.from({ length: bucketCount(count) }, (_, i) => bucketField(flair, i));
+	const buckets = await context.redis.hMGet(slotKey(slot, "groups"), fields);
+	return buckets.flatMap((raw) => (raw ? (JSON.parse(raw) as string[]) : []));
+}
+
+/* write a whole group, dropping buckets it no longer needs */
+async function writeFlairGroup(context: JobContext, slot: ScanSlot, flair: string, users: string[], previousCount: number) {
+	const fieldValues: Record<string, string> = {};
+	for (let i = 0; i < users.length; i += GROUP_BUCKET_SIZE) {
+		fieldValues[bucketField(flair, i / GROUP_BUCKET_SIZE)] = JSON.stringify(users.slice(i, i + GROUP_BUCKET_SIZE));
+	}
+	if (users.length > 0) await hSetBatched(context, slotKey(slot, "groups"), fieldValues);
+
+	const stale: string[] = [];
+	for (let b = bucketCount(users.length); b < bucketCount(previousCount); b++) stale.push(bucketField(flair, b));
+	if (stale.length > 0) await context.redis.hDel(slotKey(slot, "groups"), stale);
+
+	if (users.length > 0) await context.redis.hSet(slotKey(slot, "counts"), { [flair]: String(users.length) });
+	else await context.redis.hDel(slotKey(slot, "counts"), [flair]);
+}
+
+/* appendToFlairGroups: add users to the end of their groups, rewriting only each group's last bucket onward */
+export async function appendToFlairGroups(context: JobContext, slot: ScanSlot, additions: Record<string, string[]>) {
+	const flairs = Object.keys(additions).filter((f) => additions[f].length > 0);
+	if (flairs.length === 0) return;
+	const counts = await context.redis.hMGet(slotKey(slot, "counts"), flairs);
+
+	const groupFields: Record<string, string> = {};
+	const countFields: Record<string, string> = {};
+	for (const [i, flair] of flairs.entries()) {
+		const count = Number(counts[i] ?? 0);
+		const firstBucket = Math.floor(count / GROUP_BUCKET_SIZE);
+		const tailRaw = count % GROUP_BUCKET_SIZE > 0 ? await context.redis.hGet(slotKey(slot, "groups"), bucketField(flair, firstBucket)) : undefined;
+		const users = [...(tailRaw ? (JSON.parse(tailRaw) as string[]) : []), ...additions[flair]];
+		for (let j = 0; j < users.length; j += GROUP_BUCKET_SIZE) {
+			groupFields[bucketField(flair, firstBucket + j / GROUP_BUCKET_SIZE)] = JSON.stringify(users.slice(j, j + GROUP_BUCKET_SIZE));
+		}
+		countFields[flair] = String(count + additions[flair].length);
+	}
+	await hSetBatched(context, slotKey(slot, "groups"), groupFields);
+	await hSetBatched(context, slotKey(slot, "counts"), countFields);
+}
+
+/* removeFromFlairGroups: drop users from the given groups; returns how many were actually removed */
+export async function removeFromFlairGroups(context: JobContext, slot: ScanSlot, removals: Record<string, Set<string>>): Promise<number> {
+	let removed = 0;
+	for (const [flair, users] of Object.entries(removals)) {
+		const current = await readFlairGroup(context, slot, flair);
+		const kept = current.filter((u) => !users.has(u));
+		if (kept.length === current.length) continue;
+		removed += current.length - kept.length;
+		await writeFlairGroup(context, slot, flair, kept, current.length);
+	}
+	return removed;
+}
+
+/* ---------- Part 4: Per-user records ---------- */
+
+export async function readUserFlairs(context: JobContext, slot: ScanSlot, usernames: string[]): Promise<Record<string, StoredUserFlair | null>> {
+	const records: Record<string, StoredUserFlair | null> = {};
+	if (usernames.length === 0) return records;
+	const raws = await context.redis.hMGet(slotKey(slot, "users"), usernames);
+	usernames.forEach((u, i) => (records[u] = raws[i] ? (JSON.parse(raws[i] as string) as StoredUserFlair) : null));
+	return records;
+}
+
+export async function writeUserFlairs(context: JobContext, slot: ScanSlot, records: Record<string, StoredUserFlair>) {
+	const fieldValues: Record<string, string> = {};
+	for (const [username, record] of Object.entries(records)) fieldValues[username] = JSON.stringify(record);
+	await hSetBatched(context, slotKey(slot, "users"), fieldValues);
+}
+
+/* countUserFlairs: how many users have a record (each counted user has exactly one) */
+export async function countUserFlairs(context: JobContext, slot: ScanSlot): Promise<number> {
+	return await context.redis.hLen(slotKey(slot, "users"));
+}
+
+/* scanUserFlairs: one page of records for a resumable walk over every user; cursor 0 starts the walk, and a returned 0 ends it */
+export async function scanUserFlairs(context: JobContext, slot: ScanSlot, cursor: number): Promise<{ cursor: number; records: Record<string, StoredUserFlair> }> {
+	const page = await context.redis.hScan(slotKey(slot, "users"), cursor, undefined, HASH_PAGE_SIZE);
+	const records: Record<string, StoredUserFlair> = {};
+	for (const { field, value } of page.fieldValues) records[field] = JSON.parse(value) as StoredUserFlair;
+	return { cursor: page.cursor, records };
+}
+
+export async function deleteUserFlairs(context: JobContext, slot: ScanSlot, usernames: string[]) {
+	if (usernames.length > 0) await context.redis.hDel(slotKey(slot, "users"), usernames);
+}
+
+/* ---------- Part 5: Whole slots ---------- */
+
+/* loadScanResult: assemble a full in-memory result by paging through the slot's shards */
+export async function loadScanResult(context: JobContext, slot: ScanSlot): Promise<FlairScanResult | null> {
+	const manifest = await readManifest(context, slot);
+	if (!manifest) return null;
+
+	const buckets: Record<string, string[][]> = {};
+	await forEachHashField(context, slotKey(slot, "groups"), (field, value) => {
+		const { bucket, flair } = parseBucketField(field);
+		(buckets[flair] ??= [])[bucket] = JSON.parse(value) as string[];
+	});
+	const flairGroups: Record<string, string[]> = {};
+	for (const [flair, parts] of Object.entries(buckets)) flairGroups[flair] = parts.flatMap((p) => p ?? []);
+
+	const flairCssClasses: Record<string, string> = {};
+	const flairTemplateIds: Record<string, string> = {};
+	await forEachHashField(context, slotKey(slot, "users"), (username, value) => {
+		const record = JSON.parse(value) as StoredUserFlair;
+		if (record.cssClass) flairCssClasses[username] = record.cssClass;
+		if (record.templateId) flairTemplateIds[username] = record.templateId;
+	});
+
+	return { ...manifest, flairGroups, flairCssClasses, flairTemplateIds };
+}
+
+export interface FlairGroupAnomalies {
+	duplicateEntries: number; // extra copies of a user within one group
+	multiGroupUsers: string[]; // users listed in more than one group
+	missingUsers: number; // users with a record but in no group
+	orphanEntries: number; // group entries for users without a record
+}
+
+/* findFlairGroupAnomalies: cross-check the group lists against the per-user records */
+export async function findFlairGroupAnomalies(context: JobContext, slot: ScanSlot): Promise<FlairGroupAnomalies> {
+	const groupsByUser = new Map<string, number>();
+	const flairsByUser = new Map<string, Set<string>>();
+	await forEachHashField(context, slotKey(slot, "groups"), (field, value) => {
+		const { flair } = parseBucketField(field);
+		for (const user of JSON.parse(value) as string[]) {
+			groupsByUser.set(user, (groupsByUser.get(user) ?? 0) + 1);
+			let flairs = flairsByUser.get(user);
+			if (!flairs) flairsByUser.set(user, (flairs = new Set()));
+			flairs.add(flair);
+		}
+	});
+
+	const anomalies: FlairGroupAnomalies = { duplicateEntries: 0, multiGroupUsers: [], missingUsers: 0, orphanEntries: 0 };
+	for (const [user, entries] of groupsByUser) {
+		const flairs = flairsByUser.get(user)!;
+		anomalies.duplicateEntries += entries - flairs.size;
+		if (flairs.size > 1) anomalies.multiGroupUsers.push(user);
+	}
+	let recorded = 0;
+	await forEachHashField(context, slotKey(slot, "users"), (user) => {
+		recorded++;
+		if (!groupsByUser.has(user)) anomalies.missingUsers++;
+	});
+	anomalies.orphanEntries = groupsByUser.size - (recorded - anomalies.missingUsers);
+	return anomalies;
+}
+
+/* rebuildFlairGroups: regenerate the group lists and counts from the per-user records (one entry per user) */
+export async function rebuildFlairGroups(context: JobContext, slot: ScanSlot) {
+	const groups: Record<string, string[]> = {};
+	await forEachHashField(context, slotKey(slot, "users"), (user, value) => {
+		const record = JSON.parse(value) as StoredUserFlair;
+		(groups[record.group ?? record.flairText] ??= []).push(user);
+	});
+	await context.redis.del(slotKey(slot, "groups"), slotKey(slot, "counts"));
+	await appendToFlairGroups(context, slot, groups);
+}
+
+export async function deleteSlot(context: JobContext, slot: ScanSlot) {
+	await context.redis.del(...SLOT_PARTS.map((part) => slotKey(slot, part)));
+}
+
+/* moveSlot: replace `to` with `from` (e.g. promote a finished partial to the result) */
+export async function moveSlot(context: JobContext, from: ScanSlot, to: ScanSlot) {
+	await deleteSlot(context, to);
+	for (const part of SLOT_PARTS) {
+		// rename fails on a missing key (e.g. a scan that found no flairs has no groups hash)
+		if (await context.redis.exists(slotKey(from, part))) await context.redis.rename(slotKey(from, part), slotKey(to, part));
+	}
+}
+
+/* copySlot: duplicate a slot page by page (e.g. keep the result as a snapshot) */
+export async function copySlot(context: JobContext, from: ScanSlot, to: ScanSlot) {
+	await deleteSlot(context, to);
+	const manifest = await context.redis.get(slotKey(from, "manifest"));
+	if (manifest) await context.redis.set(slotKey(to, "manifest"), manifest);
+	for (const part of ["counts", "groups", "users"] as const) {
+		const fieldValues: Record<string, string> = {};
+		await forEachHashField(context, slotKey(from, part), (field, value) => {
+			fieldValues[field] = value;
+		});
+		if (Object.keys(fieldValues).length > 0) await hSetBatched(context, slotKey(to, part), fieldValues);
+	}
+}
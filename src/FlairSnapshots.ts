@@ -0,0 +1,253 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { copySlot, deleteSlot, loadScanResult, readManifest, readUserFlairs, ScanSlot, StoredUserFlair } from "./FlairScanStore.js";
+import { FlairScanResult, formatNumberWithCommas, registerFlairFormAction, registerScanCompletedHandler, safeKVWrite } from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+});
+
+/* ---------- Part 1: Types and snapshot storage ---------- */
+
+export interface FlairSnapshotInfo {
+	id: string; // snapshot slot suffix (scan start timestamp)
+	timestamp: number; // scan start timestamp (ms)
+	completedAt: number;
+	scannedUsers: number;
+	flairCount: number;
+}
+
+export interface FlairGroupDiff {
+	added: string[]; // had no flair in the older snapshot
+	removed: string[]; // have no flair in the newer snapshot
+	movedIn: { user: string; from: string }[];
+	movedOut: { user: string; to: string }[];
+}
+
+const SNAPSHOT_INDEX_KEY = "flairScanSnapshots";
+const DEFAULT_SNAPSHOT_RETENTION = 10;
+const DIFF_MAX_FLAIRS = 100; // flairs listed in a comparison, most changed first
+const DIFF_USERS_PER_FLAIR = 50; // user lines per flair before "…and N more"
+
+function formatSnapshotLabel(info: FlairSnapshotInfo): string {
+	return `${new Date(info.timestamp).toLocaleString()} — ${formatNumberWithCommas(info.scannedUsers)} users, ${formatNumberWithCommas(
+		info.flairCount
+	)} flairs`;
+}
+
+function snapshotSlot(id: string): ScanSlot {
+	return `snapshot:${id}`;
+}
+
+/* newest first */
+export async function getSnapshotIndex(context: JobContext): Promise<FlairSnapshotInfo[]> {
+	const raw = await context.kvStore.get(SNAPSHOT_INDEX_KEY);
+	return Array.isArray(raw) ? (raw as unknown as FlairSnapshotInfo[]) : [];
+}
+
+export async function getSnapshot(context: JobContext, id: string): Promise<FlairScanResult | null> {
+	return await loadScanResult(context, snapshotSlot(id));
+}
+
+/* getSnapshotUserFlair: one user's flair in a snapshot (null if they had none), without loading the whole snapshot */
+export async function getSnapshotUserFlair(context: JobContext, id: string, username: string): Promise<StoredUserFlair | null> {
+	if (!(await readManifest(context, snapshotSlot(id)))) return null;
+	return (await readUserFlairs(context, snapshotSlot(id), [username]))[username];
+}
+
+/* saveSnapshot: copy the completed result's shards into a snapshot slot and trim the index to the retention limit */
+async function saveSnapshot(context: JobContext, result: FlairScanResult) {
+	const settings = await getAppSettings(context);
+	const retention = Math.max(2, settings.flairSnapshotRetention || DEFAULT_SNAPSHOT_RETENTION);
+
+	const info: FlairSnapshotInfo = {
+		id: String(result.timestamp),
+		timestamp: result.timestamp,
+		completedAt: Date.now(),
+		scannedUsers: result.scannedUsers,
+		flairCount: Object.keys(result.flairGroups).length,
+	};
+
+	await copySlot(context, "result", snapshotSlot(info.id));
+
+	const index = (await getSnapshotIndex(context)).filter((s) => s.id !== info.id);
+	index.unshift(info);
+	const expired = index.splice(retention);
+	for (const old of expired) await deleteSlot(context, snapshotSlot(old.id));
+	await safeKVWrite(context, SNAPSHOT_INDEX_KEY, index);
+	console.log(`Saved flair snapshot ${info.id} (${index.length} kept, ${expired.length} expired)`);
+}
+
+registerScanCompletedHandler("snapshots", saveSnapshot);
+
+/* ---------- Part 2: Diffing ---------- */
+
+/* user → flair; if a user somehow appears in several groups the last one wins */
+function invertFlairGroups(flairGroups: Record<string, string[]>): Map<string, string> {
+	const userFlairs = new Map<string, string>();
+	for (const [flair, users] of Object.entries(flairGroups)) {
+		for (const user of users) userFlairs.set(user, flair);
+	}
+	return userFlairs;
+}
+
+export function diffFlairGroups(
+	older: Record<string, string[]>,
+	newer: Record<string, string[]>
+): Record<string, FlairGroupDiff> {
+	const before = invertFlairGroups(older);
+	const after = invertFlairGroups(newer);
+	const diffs: Record<string, FlairGroupDiff> = {};
+	const diffFor = (flair: string) => (diffs[flair] ??= { added: [], removed: [], movedIn: [], movedOut: [] });
+
+	for (const [user, flair] of after) {
+		const previous = before.get(user);
+		if (previous === undefined) diffFor(flair).added.push(user);
+		else if (previous !== flair) {
+			diffFor(flair).movedIn.push({ user, from: previous });
+			diffFor(previous).movedOut.push({ user, to: flair });
+		}
+	}
+	for (const [user, flair] of before) {
+		if (!after.has(user)) diffFor(flair).removed.push(user);
+	}
+	return diffs;
+}
+
+function formatFlairDiff(diffs: Record<string, FlairGroupDiff>): string {
+	const entries = Object.entries(diffs);
+	if (entries.length === 0) return "No flair changes between these snapshots.";
+
+	const gained = (d: FlairGroupDiff) => d.added.length + d.movedIn.length;
+	const lost = (d: FlairGroupDiff) => d.removed.length + d.movedOut.length;
+
+	let totalAdded = 0;
+	let totalRemoved = 0;
+	let totalMoved = 0;
+	for (const [, d] of entries) {
+		totalAdded += d.added.length;
+		totalRemoved += d.removed.length;
+		totalMoved += d.movedIn.length;
+	}
+
+	const sorted = entries.sort(([, a], [, b]) => gained(b) + lost(b) - (gained(a) + lost(a)));
+	const sections = sorted.slice(0, DIFF_MAX_FLAIRS).map(([flair, d]) => {
+		const lines = [
+			...d.added.map((u) => `  + u/${u}`),
+			...d.movedIn.map(({ user, from }) => `  + u/${user} (from "${from}")`),
+			...d.removed.map((u) => `  − u/${u}`),
+			...d.movedOut.map(({ user, to }) => `  − u/${user} (to "${to}")`),
+		];
+		const shown = lines.slice(0, DIFF_USERS_PER_FLAIR);
+		if (lines.length > DIFF_USERS_PER_FLAIR) shown.push(`  …and ${formatNumberWithCommas(lines.length - DIFF_USERS_PER_FLAIR)} more`);
+		return `${flair} (+${gained(d)} / −${lost(d)}):\n${shown.join("\n")}`;
+	});
+	if (sorted.length > DIFF_MAX_FLAIRS) sections.push(`…and ${formatNumberWithCommas(sorted.length - DIFF_MAX_FLAIRS)} more flairs`);
+
+	const summary = `${formatNumberWithCommas(totalAdded)} added, ${formatNumberWithCommas(totalRemoved)} removed, ${formatNumberWithCommas(
+		totalMoved
+	)} changed flair`;
+	return `${summary}\n\n${sections.join("\n\n")}`;
+}
+
+/* ---------- Part 3: Forms ---------- */
+
+const snapshotPickerForm = Devvit.createForm(
+	(data) => ({
+		title: "Compare Flair Snapshots",
+		acceptLabel: "Compare",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "olderSnapshot",
+				type: "select",
+				label: "From (older)",
+				options: data.options,
+				defaultValue: data.olderDefault ? [data.olderDefault] : [],
+				multiSelect: false,
+				required: true,
+			},
+			{
+				name: "newerSnapshot",
+				type: "select",
+				label: "To (newer)",
+				options: data.options,
+				defaultValue: data.newerDefault ? [data.newerDefault] : [],
+				multiSelect: false,
+				required: true,
+			},
+		],
+	}),
+	async ({ values }, context) => {
+		try {
+			let olderId = values.olderSnapshot?.[0];
+			let newerId = values.newerSnapshot?.[0];
+			if (!olderId || !newerId || olderId === newerId) {
+				context.ui.showToast("Pick two different snapshots.");
+				return;
+			}
+
+			let older = await getSnapshot(context, olderId);
+			let newer = await getSnapshot(context, newerId);
+			if (!older || !newer) {
+				context.ui.showToast("Snapshot no longer available.");
+				return;
+			}
+			// let mods pick in either order
+			if (older.timestamp > newer.timestamp) {
+				[older, newer] = [newer, older];
+				[olderId, newerId] = [newerId, olderId];
+			}
+
+			const diff = formatFlairDiff(diffFlairGroups(older.flairGroups, newer.flairGroups));
+			context.ui.showForm(snapshotDiffForm, {
+				title: `${new Date(older.timestamp).toLocaleDateString()} → ${new Date(newer.timestamp).toLocaleDateString()}`,
+				diff,
+			});
+		} catch (error) {
+			console.error("Error comparing flair snapshots:", error);
+			context.ui.showToast("Error comparing flair snapshots (" + error + ")");
+		}
+	}
+);
+
+const snapshotDiffForm = Devvit.createForm(
+	(data) => ({
+		title: "Flair Changes: " + (data.title ?? ""),
+		acceptLabel: "Compare Others",
+		cancelLabel: "Close",
+		fields: [
+			{
+				name: "diff",
+				type: "paragraph",
+				label: "Users added, removed and moved per flair",
+				defaultValue: data.diff,
+				disabled: true,
+				lineHeight: 10,
+			},
+		],
+	}),
+	async (_, context) => {
+		await showSnapshotPicker(context);
+	}
+);
+
+export async function showSnapshotPicker(context: Devvit.Context) {
+	const index = await getSnapshotIndex(context);
+	if (index.length < 2) {
+		context.ui.showToast("Need at least two completed scans to compare.");
+		return;
+	}
+	const options = index.map((info) => ({ label: formatSnapshotLabel(info), value: info.id }));
+	context.ui.showForm(snapshotPickerForm, {
+		options,
+		newerDefault: index[0].id,
+		olderDefault: index[1].id,
+	});
+}
+
+registerFlairFormAction({
+	value: "snapshotDiff",
+	label: "Compare snapshots (who gained, lost or changed flair)",
+	run: showSnapshotPicker,
+});
@@ -0,0 +1,90 @@
+import { Devvit, TriggerContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { readManifest } from "./FlairScanStore.js";
+import { recordFlairHistory } from "./FlairLookup.js";
+import { applyUserFlairChanges, getStoredUserFlair, markResultUpdatedIncrementally, UserFlairChange } from "./UserFlairs.js";
+
+Devvit.configure({
+  redditAPI: true,
+});
+
+/* ---------- Part 1: Applying a single user's flair ---------- */
+
+/**
+ * applyLiveFlairChange
+ * - compares the user's current flair with the stored result
+ * - only rewrites the result (and marks it as drifted) when something actually changed
+ * - text changes are also kept in the user's flair history
+ */
+async function applyLiveFlairChange(context: TriggerContext, change: UserFlairChange, source: string) {
+	const { flairLiveUpdates } = await getAppSettings(context);
+	if (!flairLiveUpdates) return;
+
+	if (!(await readManifest(context, "result"))) return; // nothing to keep current until a first full scan finishes
+
+	const stored = await getStoredUserFlair(context, change.username);
+	const newText = (change.flairText ?? "").trim();
+	const textChanged = (stored?.flairText ?? "") !== newText;
+	const cssChanged = change.cssClass !== undefined && (stored?.cssClass ?? null) !== (change.cssClass || null);
+	const templateChanged = change.templateId !== undefined && (stored?.templateId ?? null) !== (change.templateId || null);
+	if (!textChanged && !cssChanged && !templateChanged) return;
+
+	await applyUserFlairChanges(context, [change]);
+	await markResultUpdatedIncrementally(context);
+	if (textChanged) await recordFlairHistory(context, change.username, { at: Date.now(), from: stored?.flairText || null, to: newText || null, source });
+	console.log(`Live flair update (${source}): u/${change.username} "${stored?.flairText ?? ""}" → "${newText}"`);
+}
+
+/* ---------- Part 2: Triggers ---------- */
+
+/* mod edits of a user's flair; the event doesn't carry the new flair, so read it back */
+Devvit.addTrigger({
+	event: "ModAction",
+	onEvent: async (event, context) => {
+		const username = event.targetUser?.name;
+		if (event.action !== "editflair" || !username || event.targetPost?.id || event.targetComment?.id) return;
+		try {
+			const subreddit = await context.reddit.getCurrentSubreddit();
+			const { users } = await subreddit.getUserFlair({ usernames: [username] });
+			const current = users[0];
+			await applyLiveFlairChange(
+				context,
+				{
+					username,
+					flairText: current?.flairText ?? null,
+					cssClass: current?.flairCssClass ?? null,
+					templateId: event.targetUser?.flair?.templateId || undefined,
+				},
+				`mod action by u/${event.moderator?.name ?? "unknown"}`
+			);
+		} catch (err) {
+			console.error(`Live flair update failed for u/${username}:`, err);
+		}
+	},
+});
+
+/*
+ * Reddit has no trigger for users changing their own flair, but the author's current flair
+ * rides along with every post and comment, so self-flair changes are picked up on their next submission.
+ */
+Devvit.addTrigger({
+	events: ["PostSubmit", "CommentSubmit"],
+	onEvent: async (event, context) => {
+		const author = event.author;
+		if (!author?.name || !author.flair) return;
+		try {
+			await applyLiveFlairChange(
+				context,
+				{
+					username: author.name,
+					flairText: author.flair.text ?? null,
+					cssClass: author.flair.cssClass ?? null,
+					templateId: author.flair.templateId ?? null,
+				},
+				event.type === "PostSubmit" ? "post author" : "comment author"
+			);
+		} catch (err) {
+			console.error(`Live flair update failed for u/${author.name}:`, err);
+		}
+	},
+});
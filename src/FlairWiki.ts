@@ -0,0 +1,177 @@
+import { Devvit, JobContext } from "@devvit/public-api";
+import { getAppSettings } from "./main.js";
+import { escapeMarkdown, MAX_WIKI_PAGE_BYTES, upsertWikiPage, utf8ByteLength } from "./RedditUtils.js";
+import {
+	FlairScanResult,
+	formatNumberWithCommas,
+	getCompletedScanResult,
+	registerFlairFormAction,
+	registerScanCompletedHandler,
+	safeKVWrite,
+} from "./UserFlairs.js";
+import { recordFlairAudit } from "./FlairPermissions.js";
+
+Devvit.configure({
+  redditAPI: true,
+});
+
+const SUB_PAGE_COUNT_KEY = "flairWikiSubPageCount";
+const UNUSED_SUB_PAGE_CONTENT = "_This page is no longer used by Flair Fax. See the main page for the current breakdown._";
+
+/* ---------- Part 1: Markdown builders ---------- */
+
+function formatScanTimestamp(result: FlairScanResult): string {
+	return new Date(result.timestamp).toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC");
+}
+
+function sortedFlairEntries(flairGroups: Record<string, string[]>) {
+	return Object.entries(flairGroups).sort(([, a], [, b]) => b.length - a.length);
+}
+
+function buildSummaryTable(result: FlairScanResult, maxBytes: number): string {
+	const header = "| Flair | Users |\n|:--|--:|";
+	const rows: string[] = [];
+	let length = utf8ByteLength(header);
+	const entries = sortedFlairEntries(result.flairGroups);
+	for (const [flair, users] of entries) {
+		const row = `| ${escapeMarkdown(flair)} | ${formatNumberWithCommas(users.length)} |`;
+		const rowBytes = utf8ByteLength(row);
+		if (length + rowBytes + 1 > maxBytes) {
+			rows.push(`| …and ${formatNumberWithCommas(entries.length - rows.length)} more flairs (listed below) | |`);
+			break;
+		}
+		rows.push(row);
+		length += rowBytes + 1;
+	}
+	return [header, ...rows].join("\n");
+}
+
+/*
+ * One section per flair: a heading plus the user list in a spoiler, so it stays collapsed until clicked.
+ * Groups too large for a single page are split into "(continued)" sections.
+ */
+function buildFlairSections(flairGroups: Record<string, string[]>, maxBytes: number): string[] {
+	const sections: string[] = [];
+	for (const [flair, users] of sortedFlairEntries(flairGroups)) {
+		const heading = `### ${escapeMarkdown(flair)} (${formatNumberWithCommas(users.length)} user${users.length === 1 ? "" : "s"})`;
+		const headingBytes = utf8ByteLength(heading);
+		let names: string[] = [];
+		let length = headingBytes;
+		let part = 0;
+		const flush = () => {
+			const title = part === 0 ? heading : `${heading} (continued)`;
+			sections.push(`${title}\n\n>!${names.join(" • ")}!<`);
+			names = [];
+			length = headingBytes;
+			part++;
+		};
+		for (const user of users) {
+			const name = `u/${user}`;
+			const nameBytes = utf8ByteLength(name) + 5; // " • " is 5 bytes
+			if (names.length > 0 && length + nameBytes > maxBytes) flush();
+			names.push(name);
+			length += nameBytes;
+		}
+		if (names.length > 0) flush();
+	}
+	return sections;
+}
+
+/* greedily pack sections into as few pages as fit under maxBytes */
+function packSections(sections: string[], maxBytes: number): string[] {
+	const pages: string[] = [];
+	let current = "";
+	let currentBytes = 0;
+	for (const section of sections) {
+		const sectionBytes = utf8ByteLength(section);
+		if (current && currentBytes + sectionBytes + 2 > maxBytes) {
+			pages.push(current);
+			current = "";
+			currentBytes = 0;
+		}
+		current = current ? `${current}\n\n${section}` : section;
+		currentBytes += (currentBytes > 0 ? 2 : 0) + sectionBytes;
+	}
+	if (current) pages.push(current);
+	return pages;
+}
+
+/* ---------- Part 2: Publishing ---------- */
+
+/**
+ * Write the completed scan to the configured wiki page.
+ * Per-flair user lists that don't fit on the main page go to numbered sub-pages (page/1, page/2, ...).
+ * Returns how many pages were written.
+ */
+export async function publishFlairBreakdownToWiki(context: JobContext, result: FlairScanResult): Promise<number> {
+	const { flairWikiPage } = await getAppSettings(context);
+	const subredditName = await context.reddit.getCurrentSubredditName();
+	const scannedAt = formatScanTimestamp(result);
+	const reason = `Flair Fax: user flair scan from ${scannedAt}`;
+
+	// leave headroom on each page for the header/footer lines added below
+	const pageBudget = MAX_WIKI_PAGE_BYTES - 1000;
+
+	const intro =
+		`# User Flair Breakdown\n\n` +
+		`Scan from ${scannedAt}: ${formatNumberWithCommas(result.scannedUsers)} users across ${formatNumberWithCommas(
+			Object.keys(result.flairGroups).length
+		)} flairs.\n\n`;
+	const summary = buildSummaryTable(result, Math.floor(pageBudget / 2));
+	const sections = buildFlairSections(result.flairGroups, pageBudget);
+
+	let mainContent = `${intro}${summary}`;
+	let subPages: string[] = [];
+	const allSections = sections.join("\n\n");
+	if (utf8ByteLength(mainContent) + utf8ByteLength(allSections) + 4 <= pageBudget) {
+		mainContent += `\n\n${allSections}`;
+	} else {
+		subPages = packSections(sections, pageBudget);
+		const links = subPages.map((_, i) => `* [Part ${i + 1}](/r/${subredditName}/wiki/${flairWikiPage}/${i + 1})`).join("\n");
+		mainContent += `\n\n## Users per flair\n\n${links}`;
+	}
+
+	await upsertWikiPage(context, flairWikiPage, mainContent, reason);
+	for (const [i, content] of subPages.entries()) {
+		const header = `# User Flair Breakdown — Part ${i + 1} of ${subPages.length}\n\n[Back to summary](/r/${subredditName}/wiki/${flairWikiPage})\n\n`;
+		await upsertWikiPage(context, `${flairWikiPage}/${i + 1}`, header + content, reason);
+	}
+
+	// blank out sub-pages left over from a previous, larger publish
+	const previousCount = (await context.kvStore.get(SUB_PAGE_COUNT_KEY)) as number | undefined;
+	for (let i = subPages.length + 1; i <= (previousCount ?? 0); i++) {
+		await upsertWikiPage(context, `${flairWikiPage}/${i}`, UNUSED_SUB_PAGE_CONTENT, reason);
+	}
+	await safeKVWrite(context, SUB_PAGE_COUNT_KEY, subPages.length);
+
+	console.log(`Published flair breakdown to wiki/${flairWikiPage} (${subPages.length} sub-pages)`);
+	return subPages.length + 1;
+}
+
+registerScanCompletedHandler("wiki", async (context, result) => {
+	const { flairWikiAutoPublish } = await getAppSettings(context);
+	if (flairWikiAutoPublish) await publishFlairBreakdownToWiki(context, result);
+});
+
+registerFlairFormAction({
+	value: "publishWiki",
+	label: "Publish breakdown to the wiki",
+	permission: "export",
+	run: async (context) => {
+		const full = await getCompletedScanResult(context);
+		if (!full) {
+			context.ui.showToast("No completed scan to publish yet.");
+			return;
+		}
+		try {
+			const pages = await publishFlairBreakdownToWiki(context, full);
+			const { flairWikiPage } = await getAppSettings(context);
+			context.ui.showToast(`Published to wiki/${flairWikiPage}` + (pages > 1 ? ` (${pages} pages)` : ""));
+			await recordFlairAudit(context, { action: "publish to wiki", outcome: "ok", detail: `wiki/${flairWikiPage}` });
+		} catch (error) {
+			console.error("Error publishing flair breakdown to wiki:", error);
+			await recordFlairAudit(context, { action: "publish to wiki", outcome: "failed", detail: String(error) });
+			context.ui.showToast("Error publishing to wiki (" + error + ")");
+		}
+	},
+});
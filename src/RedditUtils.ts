@@ -1,5 +1,5 @@
 
-import { Devvit, ModeratorPermission, User, ModNote } from "@devvit/public-api";
+import { Devvit, JobContext, ModeratorPermission, User, ModNote } from "@devvit/public-api";
 import { getAppSettings } from "./main.js";
 
 Devvit.configure({
@@ -7,6 +7,8 @@ Devvit.configure({
 });
 
 export const MAX_COMMENT_CHARACTER_COUNT = 10000 as number;
+export const MAX_WIKI_PAGE_BYTES = 500000 as number; //reddit caps wiki pages at 512KiB (UTF-8 bytes, not characters)
+export const MAX_POST_CHARACTER_COUNT = 40000 as number; //reddit caps self-post bodies at 40,000 characters
 
 export type RedditPlatform =
   | 'ios'
@@ -72,19 +74,38 @@ export function formatRedditUrl(context: Devvit.Context, url: string): string {
   }
 }
 
+/**
+ * Every moderator of the current subreddit
+ */
+export async function getModerators(context: JobContext) : Promise<User[]> {
+    const subredditName = await context.reddit.getCurrentSubredditName() || '';
+    const listing = context.reddit.getModerators({ subredditName });
+    return await listing.all(); // <-- convert Listing<User> to User[]
+}
+
 /**
  * Check mod permissions
  */
 export async function getModPerms(context: Devvit.Context) : Promise<ModeratorPermission[]> {
     const subredditName = await context.reddit.getCurrentSubredditName() || '';
     const username = await context.reddit.getCurrentUsername() || '';
-    const listing = context.reddit.getModerators({ subredditName });
-    const mods = await listing.all(); // <-- convert Listing<User> to User[]
+    const mods = await getModerators(context);
     const mod = mods.find(m => m.username.toLowerCase() === username.toLowerCase());
     const perms = mod ? await mod.getModPermissionsForSubreddit(subredditName) : [];
     return perms;
 }
 
+/**
+ * Whether the current user moderates this subreddit (with any permissions)
+ */
+export async function isCurrentUserModerator(context: Devvit.Context) : Promise<boolean> {
+    const subredditName = await context.reddit.getCurrentSubredditName() || '';
+    const username = await context.reddit.getCurrentUsername();
+    if (!username) return false;
+    const mods = await context.reddit.getModerators({ subredditName, username }).all();
+    return mods.some(m => m.username.toLowerCase() === username.toLowerCase());
+}
+
 export async function checkForModPerms(context: Devvit.Context, requiredPerms : ModeratorPermission[]) : Promise<boolean> {
     const perms = await getModPerms(context);
     // If the user has "all", they automatically pass.
@@ -94,6 +115,59 @@ export async function checkForModPerms(context: Devvit.Context, requiredPerms :
     return requiredPerms.every(p => perms.includes(p));
 }
 
+/**
+ * Create a wiki page, or update it if it already exists
+ */
+export async function upsertWikiPage(context: JobContext, page: string, content: string, reason?: string) {
+    const subredditName = await context.reddit.getCurrentSubredditName();
+    let exists = true;
+    try {
+        await context.reddit.getWikiPage(subredditName, page);
+    } catch {
+        exists = false;
+    }
+    if (exists) {
+        await context.reddit.updateWikiPage({ subredditName, page, content, reason });
+    } else {
+        await context.reddit.createWikiPage({ subredditName, page, content, reason });
+    }
+}
+
+/**
+ * Group lines into chunks that each stay under maxChars (joined with newlines).
+ * A single line longer than maxChars gets a chunk of its own.
+ */
+export function chunkLinesByLength(lines: string[], maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+    for (const line of lines) {
+        if (current.length > 0 && length + line.length + 1 > maxChars) {
+            chunks.push(current.join('\n'));
+            current = [];
+            length = 0;
+        }
+        current.push(line);
+        length += line.length + 1;
+    }
+    if (current.length > 0) chunks.push(current.join('\n'));
+    return chunks;
+}
+
+/**
+ * Size of text in UTF-8 bytes (emoji and non-Latin characters take 2-4 bytes each)
+ */
+export function utf8ByteLength(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Escape characters that would break a markdown table cell or start formatting
+ */
+export function escapeMarkdown(text: string): string {
+    return text.replace(/([\\|*_~`>#\[\]^])/g, '\\$1');
+}
+
 function getMainDomain(urlString: string) {
     try {
         const hostname = new URL(urlString).hostname; // e.g., www.google.com
@@ -1,37 +1,64 @@
-import { Devvit, JSONValue } from "@devvit/public-api";
-import { checkForModPerms } from "./RedditUtils.js";
+import { Devvit, JobContext, JSONValue, Subreddit } from "@devvit/public-api";
+import { formatRedditUrl } from "./RedditUtils.js";
 import { getAppSettings } from "./main.js";
+import { beginScanRun, finishScanRun, noteScanRetry, recordScanChunk, recordScanFailure, showScanRunHistory } from "./FlairScanHistory.js";
+import { FlairPermissionAction, hasFlairPermission, recordFlairAudit, requireFlairPermission, showFlairAuditLog } from "./FlairPermissions.js";
+import {
+	appendToFlairGroups,
+	countUserFlairs,
+	deleteSlot,
+	deleteUserFlairs,
+	FlairScanManifest,
+	FlairScanResult,
+	findFlairGroupAnomalies,
+	loadScanResult,
+	moveSlot,
+	readFlairCounts,
+	readFlairGroup,
+	readManifest,
+	readUserFlairs,
+	rebuildFlairGroups,
+	removeFromFlairGroups,
+	SCAN_STORAGE_FORMAT,
+	StoredUserFlair,
+	writeManifest,
+	writeUserFlairs,
+} from "./FlairScanStore.js";
+
+export type { FlairScanManifest, FlairScanResult } from "./FlairScanStore.js";
 
 Devvit.configure({
   redditAPI: true,
+  redis: true,
 });
 
-//TODO - rewrite to perform scan in the background based on frequency defined in settings. Cut out the stepping through forms entirely.
-
 /* ---------- Part 1: Types, Config, Basic Helpers ---------- */
 
-interface FlairScanResult {
-	// Maps flair text → array of usernames
-	flairGroups: Record<string, string[]>;
-	after: string | null;
-	timestamp: number; // scan start timestamp (ms)
-	completed: boolean;
-	scannedUsers: number;
-	lastPageNumber?: number;
-	toastShown?: boolean;
-}
-
-const DEFAULT_QUICK_SCAN_MS = 500;
-const DEFAULT_DEVVIT_TIMEOUT_SECONDS = 30;
 const TIMEOUT_FRACTION = 0.9; // stop at 90% of allowed time
 const LONG_RUN_WARNING_THRESHOLD_MS = 3000; // show long-run toast if chunk takes > 3s
 const SLEEP_BETWEEN_PAGES_MS = 250;
-
-function sleep(ms: number) {
+const SCAN_JOB_NAME = "flairScanChunk";
+const RECURRING_SCAN_JOB_NAME = "flairScanRecurring";
+const RECURRING_SCAN_CRON = "0 6 * * *"; // daily check; weekly frequency is enforced against flairScanCompletedAt
+const DELAY_BETWEEN_CHUNKS_MS = 2000;
+const STALLED_SCAN_TIMEOUT_MULTIPLIER = 3; // no heartbeat for 3 chunk budgets → the job chain has died
+const SCAN_HANDLERS_JOB_NAME = "flairScanCompletedHandlers";
+const SCAN_HANDLERS_STATE_KEY = "flairScanHandlers"; // KV: ScanHandlersState while completed-scan handlers are pending
+const MAX_SCAN_HANDLER_ATTEMPTS = 3; // a handler that times out this often is skipped
+const SCAN_HANDLER_WATCHDOG_MULTIPLIER = 3; // re-queue the handlers job if a run hasn't finished after 3 budgets
+const SCAN_LEASE_KEY = "flairScanLease"; // Redis: JSON ScanLease held by the one chunk allowed to run
+const SCAN_LEASE_TIMEOUT_MULTIPLIER = 2; // a lease whose heartbeat is older than 2 chunk budgets can be taken over
+const RECONCILE_AFTER_UPDATES = 100; // suggest a full rescan after this many trigger-driven updates...
+const RECONCILE_AFTER_MS = 7 * 24 * 60 * 60 * 1000; // ...or once the oldest one is a week old
+const MAX_EMPTY_PAGES_TRACKED = 50;
+const DRILLDOWN_PAGE_SIZE = 100; // users per page in the flair → users drill-down
+const DRILLDOWN_FLAIR_OPTIONS = 250; // largest flairs offered for drill-down in the results form
+
+export function sleep(ms: number) {
 	return new Promise((res) => setTimeout(res, ms));
 }
 
-function formatDuration(ms: number) {
+export function formatDuration(ms: number) {
 	const sec = Math.floor(ms / 1000);
 	if (sec < 60) return `${sec} sec`;
 	const min = Math.floor(sec / 60);
@@ -40,21 +67,21 @@ function formatDuration(ms: number) {
 	return `${hr} hr ${min % 60} min`;
 }
 
-function formatNumberWithCommas(n: number): string {
+export function formatNumberWithCommas(n: number): string {
 	return n.toLocaleString();
 }
 
-function startTimer() {
+export function startTimer() {
 	return Date.now();
 }
 
-function isTimeRemaining(startTime: number, timeoutSeconds: number, fraction = TIMEOUT_FRACTION) {
+export function isTimeRemaining(startTime: number, timeoutSeconds: number, fraction = TIMEOUT_FRACTION) {
 	return Date.now() - startTime < timeoutSeconds * 1000 * fraction;
 }
 
 /* ---------- Part 2: Safe KV wrappers, merge and formatting helpers ---------- */
 
-async function safeKVWrite(context: Devvit.Context, key: string, value: unknown) {
+export async function safeKVWrite(context: JobContext, key: string, value: unknown) {
 	try {
 		await context.kvStore.put(key, JSON.parse(JSON.stringify(value)) as JSONValue);
 	} catch (err) {
@@ -62,7 +89,7 @@ async function safeKVWrite(context: Devvit.Context, key: string, value: unknown)
 	}
 }
 
-async function safeKVDelete(context: Devvit.Context, key: string) {
+export async function safeKVDelete(context: JobContext, key: string) {
 	try {
 		await context.kvStore.delete(key);
 	} catch (err) {
@@ -70,59 +97,403 @@ async function safeKVDelete(context: Devvit.Context, key: string) {
 	}
 }
 
-function formatFlairPreviewCounts(flairGroups: Record<string, string[]>, maxLines = 25): string {
-	if (!flairGroups || Object.keys(flairGroups).length === 0) return "No flair data available yet.";
-	const lines = Object.entries(flairGroups)
-		.sort(([, a], [, b]) => b.length - a.length)
-		.map(([f, users]) => `• ${f} — ${formatNumberWithCommas(users.length)} user${users.length !== 1 ? "s" : ""}`);
+/* getCompletedScanResult: the last completed scan, or null if none has finished yet */
+export async function getCompletedScanResult(context: JobContext): Promise<FlairScanResult | null> {
+	return await loadScanResult(context, "result");
+}
+
+/* findUserFlair: where a user sits in a result (null if they aren't in any group) */
+export function findUserFlair(result: FlairScanResult, username: string): Required<Omit<UserFlairChange, "username">> | null {
+	for (const [flairText, users] of Object.entries(result.flairGroups)) {
+		if (users.includes(username)) {
+			return {
+				flairText,
+				cssClass: result.flairCssClasses?.[username] ?? null,
+				templateId: result.flairTemplateIds?.[username] ?? null,
+			};
+		}
+	}
+	return null;
+}
+
+/* getStoredUserFlair: a user's flair and group in the completed result, read from their record without loading the whole result */
+export async function getStoredUserFlair(
+	context: JobContext,
+	username: string
+): Promise<(Required<Omit<UserFlairChange, "username">> & { group: string }) | null> {
+	const stored = (await readUserFlairs(context, "result", [username]))[username];
+	if (!stored) return null;
+	return { flairText: stored.flairText, cssClass: stored.cssClass ?? null, templateId: stored.templateId ?? null, group: stored.group ?? stored.flairText };
+}
+
+/* markResultUpdatedIncrementally: remember that the stored result has drifted from the last full scan */
+export async function markResultUpdatedIncrementally(context: JobContext, updates = 1) {
+	const dirtySince = await context.kvStore.get("flairScanDirtySince");
+	if (typeof dirtySince !== "number") await safeKVWrite(context, "flairScanDirtySince", Date.now());
+	const count = await context.kvStore.get("flairScanIncrementalUpdates");
+	await safeKVWrite(context, "flairScanIncrementalUpdates", (typeof count === "number" ? count : 0) + updates);
+}
+
+/* formatFreshnessNote: how current the stored result is, and whether a reconciling full scan is advisable */
+async function formatFreshnessNote(context: JobContext, full: FlairScanManifest): Promise<string> {
+	const completedAt = await context.kvStore.get("flairScanCompletedAt");
+	const dirtySince = await context.kvStore.get("flairScanDirtySince");
+	const updates = await context.kvStore.get("flairScanIncrementalUpdates");
+	const scannedAgo = formatDuration(Date.now() - (typeof completedAt === "number" ? completedAt : full.timestamp));
+	if (typeof dirtySince !== "number" || typeof updates !== "number") return `Last full scan ${scannedAgo} ago.`;
+
+	let note = `Last full scan ${scannedAgo} ago, with ${formatNumberWithCommas(updates)} flair change${updates === 1 ? "" : "s"} applied live since ${new Date(
+		dirtySince
+	).toLocaleString()}.`;
+	if (updates >= RECONCILE_AFTER_UPDATES || Date.now() - dirtySince >= RECONCILE_AFTER_MS) {
+		note += "\n⚠️ A full rescan is advisable to reconcile changes the triggers can't see.";
+	}
+	return note;
+}
+
+/* ---------- Part 2a: Flair group keys ---------- */
+
+export const NO_TEXT_FLAIR = "(no text)";
+
+// how flairs with a CSS class or template but no text are counted (the flairEmptyTextHandling setting)
+export type EmptyFlairHandling = "exclude" | "single" | "byStyle";
+
+/* flairGroupKey: the group a flair is counted in, or null when it isn't counted (no flair at all, or left out by the setting) */
+export function flairGroupKey(flairText: string | null | undefined, cssClass: string | null | undefined, templateId: string | null | undefined, handling: string): string | null {
+	const text = (flairText ?? "").trim();
+	if (text) return text;
+	if (handling === "exclude" || (!cssClass && !templateId)) return null;
+	if (handling === "single") return NO_TEXT_FLAIR;
+	return cssClass ? `${NO_TEXT_FLAIR} css: ${cssClass}` : `${NO_TEXT_FLAIR} template: ${templateId!.slice(0, 8)}`;
+}
+
+export function isNoTextFlairGroup(group: string): boolean {
+	return group === NO_TEXT_FLAIR || group.startsWith(`${NO_TEXT_FLAIR} `);
+}
+
+export interface UserFlairChange {
+	username: string;
+	flairText: string | null; // null (or empty) when the flair was cleared
+	cssClass?: string | null;
+	templateId?: string | null;
+}
+
+/**
+ * applyUserFlairChanges
+ * - moves each user out of their current group in the stored result and into the group for their new flair
+ * - only the affected groups and user records are rewritten
+ * - keeps scannedUsers in step (users without flair text are counted per the flairEmptyTextHandling setting)
+ * - returns the updated manifest, or null when there is no completed scan to update
+ */
+export async function applyUserFlairChanges(context: JobContext, changes: UserFlairChange[]): Promise<FlairScanManifest | null> {
+	const manifest = await readManifest(context, "result");
+	if (!manifest || changes.length === 0) return manifest;
+
+	// last change per user wins
+	const latest = new Map(changes.map((c) => [c.username, c]));
+	const stored = await readUserFlairs(context, "result", [...latest.keys()]);
+	const { flairEmptyTextHandling } = await getAppSettings(context);
+
+	const removals: Record<string, Set<string>> = {};
+	const additions: Record<string, string[]> = {};
+	const updated: Record<string, StoredUserFlair> = {};
+	const cleared: string[] = [];
+	for (const { username, flairText, cssClass, templateId } of latest.values()) {
+		const previous = stored[username];
+		if (previous) (removals[previous.group ?? previous.flairText] ??= new Set()).add(username);
+		const ftext = (flairText ?? "").trim();
+		const css = (cssClass === undefined ? previous?.cssClass : cssClass) || undefined;
+		const template = (templateId === undefined ? previous?.templateId : templateId) || undefined;
+		const group = flairGroupKey(ftext, css, template, flairEmptyTextHandling);
+		if (!group) {
+			if (previous) cleared.push(username);
+			continue;
+		}
+		(additions[group] ??= []).push(username);
+		updated[username] = { flairText: ftext, cssClass: css, templateId: template, group: group !== ftext ? group : undefined };
+	}
+
+	const removed = await removeFromFlairGroups(context, "result", removals);
+	await appendToFlairGroups(context, "result", additions);
+	await writeUserFlairs(context, "result", updated);
+	await deleteUserFlairs(context, "result", cleared);
+
+	manifest.scannedUsers = Math.max(0, manifest.scannedUsers - removed + Object.keys(updated).length);
+	await writeManifest(context, "result", manifest);
+	return manifest;
+}
+
+export function formatFlairPreviewCounts(flairGroups: Record<string, string[]>, maxLines = 25): string {
+	const counts: Record<string, number> = {};
+	for (const [f, users] of Object.entries(flairGroups ?? {})) counts[f] = users.length;
+	return formatFlairCountLines(counts, maxLines);
+}
+
+/* formatFlairCountLines: same as formatFlairPreviewCounts, from per-flair counts alone */
+export function formatFlairCountLines(flairCounts: Record<string, number>, maxLines = 25): string {
+	if (!flairCounts || Object.keys(flairCounts).length === 0) return "No flair data available yet.";
+	const lines = Object.entries(flairCounts)
+		.sort(([, a], [, b]) => b - a)
+		.map(([f, count]) => `• ${f} — ${formatNumberWithCommas(count)} user${count !== 1 ? "s" : ""}`);
 	if (lines.length <= maxLines) return lines.join("\n");
 	return lines.slice(0, maxLines).join("\n") + `\n…and ${lines.length - maxLines} more flairs`;
 }
 
-/* merge src into dst in-place (retains possible duplicates; if you want dedupe, change here) */
-function mergeFlairGroups(dst: Record<string, string[]>, src: Record<string, string[]>) {
-	for (const [f, users] of Object.entries(src)) {
-		if (!dst[f]) dst[f] = [];
-		dst[f].push(...users);
+/* ---------- Part 2b: Extension points for other flair modules ---------- */
+
+type ScanCompletedHandler = (context: JobContext, result: FlairScanResult) => Promise<void>;
+
+export interface FlairFormAction {
+	value: string;
+	label: string;
+	permission?: FlairPermissionAction; // checked before run; defaults to "view"
+	run: (context: Devvit.Context) => Promise<void>;
+}
+
+const scanCompletedHandlers: { name: string; handler: ScanCompletedHandler }[] = [];
+const flairFormActions: FlairFormAction[] = [];
+
+/* registerScanCompletedHandler: run `handler` after every completed scan has been persisted */
+export function registerScanCompletedHandler(name: string, handler: ScanCompletedHandler) {
+	scanCompletedHandlers.push({ name, handler });
+}
+
+/* registerFlairFormAction: add an entry to the "More actions" select of the User Flairs form */
+export function registerFlairFormAction(action: FlairFormAction) {
+	flairFormActions.push(action);
+}
+
+interface ScanHandlersState {
+	scanTimestamp: number; // the completed result the handlers are running for
+	next: number; // index into scanCompletedHandlers
+	attempts: number; // runs of `next` so far (a run that timed out never got to advance)
+	watchdogJobId?: string; // re-queues the job if the current handler's run dies
+}
+
+/* queueScanCompletedHandlers: run the handlers in their own job, one handler per run, so none shares the last chunk's time budget */
+async function queueScanCompletedHandlers(context: JobContext, scanTimestamp: number) {
+	if (scanCompletedHandlers.length === 0) return;
+	const state: ScanHandlersState = { scanTimestamp, next: 0, attempts: 0 };
+	await safeKVWrite(context, SCAN_HANDLERS_STATE_KEY, state);
+	await context.scheduler.runJob({ name: SCAN_HANDLERS_JOB_NAME, runAt: new Date() });
+}
+
+/* Handlers job: one failing handler must not block the others (or mark the scan failed) */
+Devvit.addSchedulerJob({
+	name: SCAN_HANDLERS_JOB_NAME,
+	onRun: async (_, context) => {
+		const raw = await context.kvStore.get(SCAN_HANDLERS_STATE_KEY);
+		if (!raw) return;
+		const state = raw as unknown as ScanHandlersState;
+		const manifest = await readManifest(context, "result");
+		// a newer scan queued its own run (or the result was cleared)
+		if (!manifest?.completed || manifest.timestamp !== state.scanTimestamp || state.next >= scanCompletedHandlers.length) {
+			await safeKVDelete(context, SCAN_HANDLERS_STATE_KEY);
+			return;
+		}
+
+		const { name, handler } = scanCompletedHandlers[state.next];
+		if (state.attempts >= MAX_SCAN_HANDLER_ATTEMPTS) {
+			console.error(`Scan completed handler "${name}" never finished in ${MAX_SCAN_HANDLER_ATTEMPTS} runs; skipping it.`);
+			await recordFlairAudit(context, { user: "scheduler", action: `scan completed handler "${name}"`, outcome: "failed", detail: "ran out of time on every attempt" });
+		} else {
+			const { devvitExecutionTimeoutSeconds } = await getAppSettings(context);
+			state.attempts++;
+			state.watchdogJobId = await context.scheduler.runJob({
+				name: SCAN_HANDLERS_JOB_NAME,
+				runAt: new Date(Date.now() + devvitExecutionTimeoutSeconds * 1000 * SCAN_HANDLER_WATCHDOG_MULTIPLIER),
+			});
+			await safeKVWrite(context, SCAN_HANDLERS_STATE_KEY, state);
+			try {
+				const result = await loadScanResult(context, "result");
+				if (result) await handler(context, result);
+			} catch (err) {
+				console.error(`Scan completed handler "${name}" failed:`, err);
+				await recordFlairAudit(context, { user: "scheduler", action: `scan completed handler "${name}"`, outcome: "failed", detail: String(err) });
+			}
+			await context.scheduler.cancelJob(state.watchdogJobId);
+		}
+
+		state.next++;
+		state.attempts = 0;
+		delete state.watchdogJobId;
+		if (state.next >= scanCompletedHandlers.length) {
+			await safeKVDelete(context, SCAN_HANDLERS_STATE_KEY);
+			return;
+		}
+		await safeKVWrite(context, SCAN_HANDLERS_STATE_KEY, state);
+		await context.scheduler.runJob({ name: SCAN_HANDLERS_JOB_NAME, runAt: new Date() });
+	},
+});
+
+/* ---------- Part 2c: Flair templates ---------- */
+
+/* getTemplateIdsByText: trimmed template text → IDs of every user flair template with that text */
+export async function getTemplateIdsByText(context: JobContext, subredditName: string): Promise<Record<string, string[]>> {
+	const byText: Record<string, string[]> = {};
+	try {
+		for (const template of await context.reddit.getUserFlairTemplates(subredditName)) {
+			const text = (template.text || "").trim();
+			if (!text) continue;
+			(byText[text] ??= []).push(template.id);
+		}
+	} catch (err) {
+		// non-fatal: the scan still groups by text, just without template IDs
+		console.warn("Could not load user flair templates:", err);
+	}
+	return byText;
+}
+
+/* recordedTemplateId: the first recorded template that still has this flair text and is one of its candidates */
+function recordedTemplateId(candidates: string[] | undefined, flairText: string, ...records: (StoredUserFlair | null | undefined)[]): string | undefined {
+	for (const record of records) {
+		if (record?.templateId && record.flairText === flairText && candidates?.includes(record.templateId)) return record.templateId;
 	}
+	return undefined;
 }
 
 /* ---------- Part 3: Chunked pagination with cumulative totals & page numbering ---------- */
 
+const MAX_PAGE_FETCH_ATTEMPTS = 6; // consecutive failed attempts at one cursor before the scan fails
+const RETRY_BASE_DELAY_MS = 1000; // doubles per attempt: 1s, 2s, 4s, 8s, 16s
+const RETRY_MAX_DELAY_MS = 16000;
+
+const TRANSIENT_ERROR_PATTERNS = [
+	/\b(?:status|code|http)\W{0,3}(?:429|5\d\d)\b/i,
+	/rate.?limit/i,
+	/too many requests/i,
+	/resource.?exhausted/i,
+	/internal server error|bad gateway|service unavailable|gateway time-?out/i,
+	/\bunavailable\b/i,
+	/time[ds]? ?out|deadline.?exceeded|ETIMEDOUT/i,
+	/ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|network (?:error|request failed)|fetch failed/i,
+];
+
+/* the HTTP status an error carries as a field, if any */
+function errorStatusCode(err: unknown): number | undefined {
+	if (!err || typeof err !== "object") return undefined;
+	const { status, statusCode } = err as { status?: unknown; statusCode?: unknown };
+	const code = typeof status === "number" ? status : statusCode;
+	return typeof code === "number" ? code : undefined;
+}
+
+/* classifyScanError: transient errors (rate limits, 5xx, timeouts, dropped connections) are worth retrying; anything else is fatal */
+export function classifyScanError(err: unknown): "transient" | "fatal" {
+	const status = errorStatusCode(err);
+	if (status !== undefined) return status === 429 || (status >= 500 && status < 600) ? "transient" : "fatal";
+	const text = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+	return TRANSIENT_ERROR_PATTERNS.some((pattern) => pattern.test(text)) ? "transient" : "fatal";
+}
+
+type PageFetchOutcome =
+	| { kind: "ok"; resp: any; attempts: number }
+	| { kind: "paused"; attempts: number } // transient errors, and the chunk budget ran out before the next attempt
+	| { kind: "failed"; error: string; attempts: number };
+
+/**
+ * fetchUserFlairPage
+ * - retries transient errors with exponential backoff while the chunk budget allows
+ * - `attempts` carries failed attempts at this cursor over from earlier chunks, so the total stays bounded
+ * - an invalid response counts as transient: Reddit occasionally returns an empty body under load
+ */
+async function fetchUserFlairPage(
+	subreddit: Subreddit,
+	after: string | null,
+	attempts: number,
+	chunkStart: number,
+	timeoutSeconds: number
+): Promise<PageFetchOutcome> {
+	while (true) {
+		let error: string;
+		try {
+			const resp = await subreddit.getUserFlair({ after: after ?? undefined, limit: 1000 });
+			if (resp && Array.isArray(resp.users)) return { kind: "ok", resp, attempts };
+			console.error("❌ Invalid getUserFlair response:", resp);
+			error = "Invalid response from getUserFlair";
+		} catch (err) {
+			error = String(err);
+			if (classifyScanError(err) === "fatal") {
+				console.error("❌ Page fetch error (fatal):", err);
+				return { kind: "failed", error, attempts: attempts + 1 };
+			}
+		}
+
+		attempts++;
+		if (attempts >= MAX_PAGE_FETCH_ATTEMPTS) {
+			console.error(`❌ Page fetch failed ${attempts} times in a row: ${error}`);
+			return { kind: "failed", error: `${error} (after ${attempts} attempts)`, attempts };
+		}
+		const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS) * (0.8 + Math.random() * 0.4);
+		// leave room for the retried request itself; otherwise let the next chunk retry
+		if (Date.now() + delay - chunkStart > timeoutSeconds * 1000 * TIMEOUT_FRACTION - LONG_RUN_WARNING_THRESHOLD_MS) {
+			console.warn(`⚠️ Page fetch error (attempt ${attempts}), retrying in the next chunk: ${error}`);
+			return { kind: "paused", attempts };
+		}
+		console.warn(`⚠️ Page fetch error (attempt ${attempts}), retrying in ${formatDuration(delay)}: ${error}`);
+		await sleep(delay);
+	}
+}
+
 /**
  * buildFlairGroupsPaginatedChunk
- * - continues from `after` cursor
- * - accumulates into `cumulativeFlairGroupsStart` and `scannedUsersStart`
+ * - continues from the partial manifest's `after` cursor, scannedUsers and page number
  * - uses startPageNumber so logs continue across chunks
- * - returns FlairScanResult for the merged state and persists partial/final
+ * - checkpoints after every page: that page's users go to the sharded partial, then the manifest
+ *   (so a chunk that fails or dies mid-write resumes from the last good cursor)
+ * - a manifest with no cursor after at least one page means the listing was exhausted before finishing
+ * - renews the scan lease (the heartbeat) between pages and stops without writing once the scan is cancelled
+ *   or the lease was lost to another chunk
+ * - returns the new manifest, or null when it stopped early; on completion the partial is promoted to the result
  */
 async function buildFlairGroupsPaginatedChunk(
-	context: Devvit.Context,
+	context: JobContext,
 	subredditName: string,
-	after: string | null,
-	cumulativeFlairGroupsStart: Record<string, string[]>,
-	scannedUsersStart: number,
-	startPageNumber: number
-): Promise<FlairScanResult> {
+	start: FlairScanManifest,
+	leaseOwner: string
+): Promise<FlairScanManifest | null> {
 	const subreddit = await context.reddit.getCurrentSubreddit();
-	let currentAfter: string | null = after;
+	let currentAfter: string | null = start.after ?? null;
+	const startPageNumber = start.lastPageNumber ?? 0;
 	let pageNumber = startPageNumber;
-	// clone starting cumulative so we can mutate locally
-	const cumulativeFlairGroups: Record<string, string[]> = { ...(cumulativeFlairGroupsStart ?? {}) };
-	let cumulativeUsers = scannedUsersStart ?? 0;
+	let fetchAttempts = start.fetchAttempts ?? 0;
+	const knownFlairs = new Set(Object.keys(await readFlairCounts(context, "partial")));
+	const templateIdsByText = await getTemplateIdsByText(context, subredditName);
+	let cumulativeUsers = start.scannedUsers ?? 0;
+	let seenUsers = start.seenUsers ?? cumulativeUsers;
+	let duplicateRecords = start.duplicateRecords ?? 0;
+	let movedRecords = start.movedRecords ?? 0;
+	const emptyPages = [...(start.emptyPages ?? [])];
+	let pagesFetched = 0;
+	let pageRetries = 0;
+
+	// Determine timestamp: reuse existing scan start if present
+	const startTimestampRaw = await context.kvStore.get("flairScanStartedAt");
+	const timestamp = typeof startTimestampRaw === "number" ? startTimestampRaw : Date.now();
 
-	const settings = (typeof getAppSettings === "function") ? await getAppSettings(context) : { devvitExecutionTimeoutSeconds: DEFAULT_DEVVIT_TIMEOUT_SECONDS };
-	const timeoutSeconds = (settings && typeof settings.devvitExecutionTimeoutSeconds === "number") ? settings.devvitExecutionTimeoutSeconds : DEFAULT_DEVVIT_TIMEOUT_SECONDS;
+	const settings = await getAppSettings(context);
+	const timeoutSeconds = settings.devvitExecutionTimeoutSeconds;
 	const chunkStart = startTimer();
 
 	// If chunk is long, we log once (UI toast is triggered on menu/form open)
 	let longRunToastLogged = false;
 
-	let completed = false;
+	let completed = !currentAfter && startPageNumber > 0;
 
-	do {
-		pageNumber++;
-    context.ui.showToast('User Flair scanning on page ' + pageNumber);
+	const currentManifest = (): FlairScanManifest => ({
+		after: currentAfter,
+		timestamp,
+		completed,
+		scannedUsers: cumulativeUsers,
+		seenUsers,
+		duplicateRecords,
+		movedRecords,
+		emptyPages,
+		lastPageNumber: pageNumber,
+		fetchAttempts: fetchAttempts > 0 ? fetchAttempts : undefined,
+	});
+
+	while (!completed) {
+		if (!(await mayContinueScan(context, leaseOwner, timeoutSeconds))) return null;
 
 		// Stop if time budget nearly exhausted
 		if (!isTimeRemaining(chunkStart, timeoutSeconds, TIMEOUT_FRACTION)) {
@@ -130,39 +501,103 @@ async function buildFlairGroupsPaginatedChunk(
 			break;
 		}
 
-		let resp: any;
-		try {
-			resp = await subreddit.getUserFlair({ after: currentAfter ?? undefined, limit: 1000 });
-		} catch (err) {
-			const msg = String(err);
-			console.error("❌ Page fetch error:", err);
-			await safeKVWrite(context, "flairScanFailed", true);
-			await safeKVWrite(context, "flairScanFailedMessage", msg);
-			await safeKVWrite(context, "flairScanInProgress", false);
-			throw err;
+		const fetched = await fetchUserFlairPage(subreddit, currentAfter, fetchAttempts, chunkStart, timeoutSeconds);
+		// every failed attempt is backed off and retried, except the one that fails the scan
+		pageRetries += fetched.attempts - fetchAttempts - (fetched.kind === "failed" ? 1 : 0);
+		fetchAttempts = fetched.attempts;
+		if (fetched.kind !== "ok" && !(await mayContinueScan(context, leaseOwner, timeoutSeconds))) return null;
+		if (fetched.kind === "paused") {
+			await writeManifest(context, "partial", currentManifest());
+			break;
 		}
-
-		// Defensive
-		if (!resp || !Array.isArray(resp.users)) {
-			console.error("❌ Invalid getUserFlair response:", resp);
+		if (fetched.kind === "failed") {
+			// every earlier page is already checkpointed; Retry Scan resumes from currentAfter
+			await writeManifest(context, "partial", currentManifest());
 			await safeKVWrite(context, "flairScanFailed", true);
-			await safeKVWrite(context, "flairScanFailedMessage", "Invalid response from getUserFlair");
+			await safeKVWrite(context, "flairScanFailedMessage", fetched.error);
 			await safeKVWrite(context, "flairScanInProgress", false);
-			throw new Error("Invalid response from getUserFlair");
+			await recordScanFailure(context, fetched.error);
+			await recordScanChunk(context, pagesFetched, cumulativeUsers, knownFlairs.size, pageRetries);
+			throw new Error(fetched.error);
 		}
-
-		// Merge page users
+		const resp = fetched.resp;
+		fetchAttempts = 0;
+		pageNumber++;
+		pagesFetched++;
+		if (resp.users.length === 0 && resp.next && emptyPages.length < MAX_EMPTY_PAGES_TRACKED) emptyPages.push(pageNumber);
+
+		// this page's additions only; earlier pages are already persisted
+		const pageFlairGroups: Record<string, string[]> = {};
+		const pageUsers: Record<string, StoredUserFlair> = {};
+		// users seen again whose earlier record was persisted by a previous page: drop them from their old group
+		const staleMemberships: Record<string, Set<string>> = {};
+		const droppedUsers = new Set<string>();
+
+		// earlier records for this page's users (a retried chunk re-reads pages that were already persisted)
+		const pageUsernames: string[] = resp.users.map((u: any) => u.user ?? "Unknown");
+		const persisted = await readUserFlairs(context, "partial", pageUsernames);
+		// the listing has no template ID; when several templates share a text, fall back to the template
+		// the last scan or the live flair updates recorded for that user
+		const sharedTextUsernames = resp.users
+			.filter((u: any) => (templateIdsByText[(u.flairText || "").trim()]?.length ?? 0) > 1)
+			.map((u: any) => u.user ?? "Unknown");
+		const recordedFlairs = sharedTextUsernames.length ? await readUserFlairs(context, "result", sharedTextUsernames) : {};
+
+		// Merge page users; each user is counted once and the latest record wins
 		for (const u of resp.users) {
 			const uname = u.user ?? "Unknown";
 			const ftext = (u.flairText || "").trim();
-			if (!ftext) continue;
-			if (!cumulativeFlairGroups[ftext]) cumulativeFlairGroups[ftext] = [];
-			cumulativeFlairGroups[ftext].push(uname);
-			cumulativeUsers++;
+			seenUsers++;
+			// infer the template when exactly one template has this text, else keep a recorded one that still fits
+			const templateIds = ftext ? templateIdsByText[ftext] : undefined;
+			const templateId = templateIds?.length === 1 ? templateIds[0] : recordedTemplateId(templateIds, ftext, persisted[uname], recordedFlairs[uname]);
+			const group = flairGroupKey(ftext, u.flairCssClass, templateId, settings.flairEmptyTextHandling);
+
+			const inPage = pageUsers[uname];
+			const previous = inPage ?? (droppedUsers.has(uname) ? null : persisted[uname]);
+			const previousGroup = previous ? previous.group ?? previous.flairText : null;
+			if (previous) {
+				duplicateRecords++;
+				if (previousGroup !== group) {
+					movedRecords++;
+					cumulativeUsers--;
+					if (inPage) {
+						pageFlairGroups[previousGroup!] = pageFlairGroups[previousGroup!].filter((name) => name !== uname);
+						delete pageUsers[uname];
+						if (persisted[uname]) droppedUsers.add(uname);
+					} else {
+						(staleMemberships[previousGroup!] ??= new Set()).add(uname);
+						droppedUsers.add(uname);
+					}
+				}
+			}
+			if (!group) continue;
+			if (previousGroup !== group) {
+				if (!pageFlairGroups[group]) pageFlairGroups[group] = [];
+				pageFlairGroups[group].push(uname);
+				cumulativeUsers++;
+			}
+			knownFlairs.add(group);
+			pageUsers[uname] = {
+				flairText: ftext,
+				cssClass: u.flairCssClass || undefined,
+				templateId,
+				group: group !== ftext ? group : undefined,
+			};
+			droppedUsers.delete(uname);
 		}
 
+		// a cancel or takeover during the fetch: drop this page, the new owner re-reads it
+		if (!(await mayContinueScan(context, leaseOwner, timeoutSeconds))) return null;
 		currentAfter = resp.next ?? null;
 
+		// Checkpoint this page's shards (records before groups), then the manifest with the new cursor
+		await writeUserFlairs(context, "partial", pageUsers);
+		await deleteUserFlairs(context, "partial", [...droppedUsers]);
+		await removeFromFlairGroups(context, "partial", staleMemberships);
+		await appendToFlairGroups(context, "partial", pageFlairGroups);
+		await writeManifest(context, "partial", currentManifest());
+
 		// If running long, mark logged (console-only); toast shown on form/menu open or when user continues
 		// if (!longRunToastLogged && Date.now() - chunkStart > LONG_RUN_WARNING_THRESHOLD_MS) {
 		// 	console.log("⚠️ Showing long-run warning toast to user... (chunk in progress)");
@@ -173,127 +608,517 @@ async function buildFlairGroupsPaginatedChunk(
 		console.log(
 			`Chunk ${Math.max(1, startPageNumber)} — Page ${pageNumber}: after=${currentAfter}, scannedUsers=${formatNumberWithCommas(
 				cumulativeUsers
-			)}, uniqueFlairs=${formatNumberWithCommas(Object.keys(cumulativeFlairGroups).length)}`
+			)}, uniqueFlairs=${formatNumberWithCommas(knownFlairs.size)}`
 		);
 
-		// heartbeat
-		await safeKVWrite(context, "flairScanHeartbeat", Date.now());
-
-		// yield
-		await sleep(SLEEP_BETWEEN_PAGES_MS);
-
 		if (!currentAfter) {
 			completed = true;
 			break;
 		}
-	} while (true);
 
-	// Determine timestamp: reuse existing scan start if present
-	const startTimestampRaw = await context.kvStore.get("flairScanStartedAt");
-	const timestamp = typeof startTimestampRaw === "number" ? startTimestampRaw : Date.now();
+		// yield
+		await sleep(SLEEP_BETWEEN_PAGES_MS);
+	}
 
-	const result: FlairScanResult = {
-		flairGroups: cumulativeFlairGroups,
-		after: currentAfter,
-		timestamp,
-		completed,
-		scannedUsers: cumulativeUsers,
-		lastPageNumber: pageNumber,
-	};
+	const manifest = currentManifest();
+	if (completed) {
+		await checkScanIntegrity(context, manifest);
+		// records are authoritative: one per counted user
+		manifest.scannedUsers = await countUserFlairs(context, "partial");
+		await writeManifest(context, "partial", manifest);
+	}
+	await recordScanChunk(context, pagesFetched, manifest.scannedUsers, knownFlairs.size, pageRetries);
 
-	// Persist partial or final
 	if (completed) {
-		await safeKVWrite(context, "flairScanResult", result);
+		await moveSlot(context, "partial", "result");
 		await safeKVWrite(context, "flairScanCompletedAt", Date.now());
 		await safeKVWrite(context, "flairScanInProgress", false);
 		await safeKVWrite(context, "flairScanFailed", false);
-		await safeKVDelete(context, "flairScanPartial");
+		await safeKVDelete(context, "flairScanDirtySince");
+		await safeKVDelete(context, "flairScanIncrementalUpdates");
+		await finishScanRun(context, "completed");
+		await queueScanCompletedHandlers(context, manifest.timestamp);
 	} else {
-		await safeKVWrite(context, "flairScanPartial", result);
 		await safeKVWrite(context, "flairScanInProgress", true);
 	}
 
-	return result;
-}
-
-/* ---------- Part 4: Scan flow helpers (startQuickScan, continueScan) and UI helper ---------- */
-
-/* startQuickScan: attempt to complete quickly (race against DEFAULT_QUICK_SCAN_MS) */
-async function startQuickScan(context: Devvit.Context, subredditName: string): Promise<FlairScanResult> {
-	// load partial (if any) to pick up where left off
-	const partialRaw = await context.kvStore.get("flairScanPartial");
-	const partial = partialRaw ? (partialRaw as unknown as FlairScanResult) : null;
-
-	const quickPromise = (async () => {
-		const startAfter = partial?.after ?? null;
-		const startGroups = partial?.flairGroups ?? {};
-		const startUsers = partial?.scannedUsers ?? 0;
-		const startPage = partial?.lastPageNumber ?? 0;
-		return await buildFlairGroupsPaginatedChunk(context, subredditName, startAfter, startGroups, startUsers, startPage);
-	})();
-
-	const quickTimeout = new Promise<{ __timeout: true }>((resolve) =>
-		setTimeout(() => resolve({ __timeout: true }), DEFAULT_QUICK_SCAN_MS)
-	);
-
-	const raced = await Promise.race([quickPromise, quickTimeout]);
-
-	if ((raced as any).__timeout) {
-		// Quick attempt didn't finish: ensure partial exists or create initial
-		if (!partial) {
-			const initial: FlairScanResult = {
-				flairGroups: {},
-				after: null,
-				timestamp: Date.now(),
-				completed: false,
-				scannedUsers: 0,
-				lastPageNumber: 0,
-				toastShown: false,
-			};
-			await safeKVWrite(context, "flairScanPartial", initial);
-			await safeKVWrite(context, "flairScanStartedAt", Date.now());
-			await safeKVWrite(context, "flairScanInProgress", true);
-			return initial;
-		}
-		return partial;
+	return manifest;
+}
+
+/* ---------- Part 3b: Integrity report ---------- */
+
+export interface FlairScanIntegrityReport {
+	checkedAt: number;
+	duplicateRecords: number;
+	movedRecords: number;
+	emptyPages: number[];
+	duplicateEntries: number;
+	multiGroupUsers: string[]; // sample
+	multiGroupUserCount: number;
+	missingUsers: number;
+	orphanEntries: number;
+	repaired: boolean;
+}
+
+const MULTI_GROUP_SAMPLE_SIZE = 20;
+
+/**
+ * checkScanIntegrity
+ * - cross-checks the finished partial's groups against its per-user records
+ * - rebuilds the groups from the records when they disagree, so every user is counted exactly once
+ * - stores the report under flairScanIntegrity
+ */
+async function checkScanIntegrity(context: JobContext, manifest: FlairScanManifest): Promise<FlairScanIntegrityReport> {
+	const anomalies = await findFlairGroupAnomalies(context, "partial");
+	const repaired = anomalies.duplicateEntries + anomalies.multiGroupUsers.length + anomalies.missingUsers + anomalies.orphanEntries > 0;
+	if (repaired) {
+		console.warn("⚠️ Flair scan groups disagree with user records; rebuilding groups.", anomalies);
+		await rebuildFlairGroups(context, "partial");
+	}
+	const report: FlairScanIntegrityReport = {
+		checkedAt: Date.now(),
+		duplicateRecords: manifest.duplicateRecords ?? 0,
+		movedRecords: manifest.movedRecords ?? 0,
+		emptyPages: manifest.emptyPages ?? [],
+		duplicateEntries: anomalies.duplicateEntries,
+		multiGroupUsers: anomalies.multiGroupUsers.slice(0, MULTI_GROUP_SAMPLE_SIZE),
+		multiGroupUserCount: anomalies.multiGroupUsers.length,
+		missingUsers: anomalies.missingUsers,
+		orphanEntries: anomalies.orphanEntries,
+		repaired,
+	};
+	await safeKVWrite(context, "flairScanIntegrity", report);
+	return report;
+}
+
+export async function getScanIntegrityReport(context: JobContext): Promise<FlairScanIntegrityReport | null> {
+	const raw = await context.kvStore.get("flairScanIntegrity");
+	return raw ? (raw as unknown as FlairScanIntegrityReport) : null;
+}
+
+/* formatIntegritySummary: one line when all is well, details otherwise */
+export function formatIntegritySummary(report: FlairScanIntegrityReport): string {
+	const problems: string[] = [];
+	if (report.duplicateRecords > 0) {
+		problems.push(
+			`${formatNumberWithCommas(report.duplicateRecords)} duplicate listing rows (latest kept${
+				report.movedRecords > 0 ? `, ${formatNumberWithCommas(report.movedRecords)} with a different flair` : ""
+			})`
+		);
+	}
+	if (report.emptyPages.length > 0) problems.push(`empty pages mid-scan: ${report.emptyPages.join(", ")}`);
+	if (report.duplicateEntries > 0) problems.push(`${formatNumberWithCommas(report.duplicateEntries)} repeated group entries`);
+	if (report.multiGroupUserCount > 0) {
+		const sample = report.multiGroupUsers.map((u) => `u/${u}`).join(", ");
+		problems.push(`${formatNumberWithCommas(report.multiGroupUserCount)} users in several groups (${sample}${report.multiGroupUserCount > report.multiGroupUsers.length ? ", …" : ""})`);
+	}
+	if (report.missingUsers > 0) problems.push(`${formatNumberWithCommas(report.missingUsers)} users missing from their group`);
+	if (report.orphanEntries > 0) problems.push(`${formatNumberWithCommas(report.orphanEntries)} group entries without a user record`);
+	if (problems.length === 0) return "✅ Integrity check passed: every user counted once.";
+	return `⚠️ Integrity check: ${problems.join("; ")}.` + (report.repaired ? " Groups were rebuilt so every user is counted once." : "");
+}
+
+/* ---------- Part 4: Background scan flow (startBackgroundScan, continueScan, scheduler jobs) and UI helper ---------- */
+
+/* startBackgroundScan: create (or reuse) the partial and queue the first chunk job; startedBy is a username or "scheduler" */
+async function startBackgroundScan(context: JobContext, startedBy: string): Promise<FlairScanManifest> {
+	let partial = await readManifest(context, "partial");
+
+	await safeKVDelete(context, "flairScanFailed");
+	await safeKVDelete(context, "flairScanFailedMessage");
+	await safeKVDelete(context, "flairScanCancelled");
+
+	// a failed scan keeps its partial, so retrying resumes from the last persisted cursor
+	if (!partial) {
+		partial = {
+			after: null,
+			timestamp: Date.now(),
+			completed: false,
+			scannedUsers: 0,
+			seenUsers: 0,
+			lastPageNumber: 0,
+			toastShown: false,
+		};
+		await deleteSlot(context, "partial");
+		await writeManifest(context, "partial", partial);
+		await safeKVWrite(context, "flairScanStartedAt", partial.timestamp);
+		await beginScanRun(context, partial.timestamp, startedBy);
 	} else {
-		// Quick finished: returns chunk result (may be completed or partial) and it has been persisted by chunk fn
-		return raced as FlairScanResult;
+		if (partial.fetchAttempts) {
+			// a manual retry gets a fresh set of attempts at the checkpointed cursor
+			partial = { ...partial, fetchAttempts: undefined };
+			await writeManifest(context, "partial", partial);
+		}
+		await noteScanRetry(context);
 	}
+	await safeKVWrite(context, "flairScanInProgress", true);
+	await safeKVWrite(context, "flairScanHeartbeat", Date.now());
+
+	await scheduleScanChunk(context, 0);
+	return partial;
 }
 
-/* continueScan: resume from partial state and run one chunk */
-async function continueScan(context: Devvit.Context, subredditName: string, partial: FlairScanResult): Promise<FlairScanResult> {
-	const startAfter = partial.after ?? null;
-	const startGroups = partial.flairGroups ?? {};
-	const startUsers = partial.scannedUsers ?? 0;
-	const startPage = partial.lastPageNumber ?? 0;
+/* scheduleScanChunk: queue the next chunk job (replacing any still pending) and remember its id so a cancel can unschedule it */
+async function scheduleScanChunk(context: JobContext, delayMs = DELAY_BETWEEN_CHUNKS_MS) {
+	await cancelScheduledScanChunk(context);
+	const jobId = await context.scheduler.runJob({
+		name: SCAN_JOB_NAME,
+		runAt: new Date(Date.now() + delayMs),
+	});
+	await safeKVWrite(context, "flairScanJobId", jobId);
+}
+
+/* cancelScheduledScanChunk: unschedule a pending chunk job, if any */
+async function cancelScheduledScanChunk(context: JobContext) {
+	const jobId = (await context.kvStore.get("flairScanJobId")) as string | undefined;
+	if (!jobId) return;
+	try {
+		await context.scheduler.cancelJob(jobId);
+	} catch (err) {
+		// job may have already run
+		console.warn(`Could not cancel flair scan job ${jobId}:`, err);
+	}
+	await safeKVDelete(context, "flairScanJobId");
+}
 
+/* continueScan: resume from the partial manifest and run one chunk */
+async function continueScan(context: JobContext, subredditName: string, partial: FlairScanManifest, leaseOwner: string): Promise<FlairScanManifest | null> {
 	// run a chunk and persist result
-	const res = await buildFlairGroupsPaginatedChunk(context, subredditName, startAfter, startGroups, startUsers, startPage);
+	const res = await buildFlairGroupsPaginatedChunk(context, subredditName, partial, leaseOwner);
 	return res;
 }
 
-/* showProgressForm: render partial or final preview */
-function showProgressForm(context: Devvit.Context, result: FlairScanResult) {
-	const preview = result.completed
-		? `Total flairs: ${formatNumberWithCommas(Object.keys(result.flairGroups).length)}\nTotal users: ${formatNumberWithCommas(
-				result.scannedUsers
-		  )}\nFlair Breakdown (⏱️ ${formatDuration(Date.now() - result.timestamp)}):\n${formatFlairPreviewCounts(result.flairGroups)}`
-		: `⏱️ ${formatDuration(Date.now() - result.timestamp)}, ${formatNumberWithCommas(result.scannedUsers)} users scanned so far.`;
+/* isScanStalled: in progress, but no heartbeat for several chunk budgets (job chain died, e.g. hard timeout) */
+async function isScanStalled(context: JobContext): Promise<boolean> {
+	const scanRunning = !!(await context.kvStore.get("flairScanInProgress"));
+	if (!scanRunning) return false;
+	const heartbeat = await context.kvStore.get("flairScanHeartbeat");
+	if (typeof heartbeat !== "number") return true;
+	const { devvitExecutionTimeoutSeconds } = await getAppSettings(context);
+	return Date.now() - heartbeat > devvitExecutionTimeoutSeconds * 1000 * STALLED_SCAN_TIMEOUT_MULTIPLIER;
+}
+
+/* ---------- Part 4a: Scan lease ---------- */
+
+/*
+ * Only the chunk holding the lease reads or writes the partial. The holder renews it between pages, which is also
+ * the heartbeat; a lease whose heartbeat has gone stale (the chunk died) is taken over by the next chunk job.
+ */
+interface ScanLease {
+	owner: string; // one id per chunk run
+	acquiredAt: number;
+	expiresAt: number; // last heartbeat + lease span
+}
+
+async function readScanLease(context: JobContext): Promise<ScanLease | null> {
+	const raw = await context.redis.get(SCAN_LEASE_KEY);
+	return raw ? (JSON.parse(raw) as ScanLease) : null;
+}
+
+/**
+ * claimScanLease
+ * - takeOver: acquire a free lease, or one whose heartbeat went stale; otherwise only renew our own
+ * - WATCH makes claim and renewal atomic, so two chunks can never both succeed
+ * - writes the heartbeat on success; the lease spans SCAN_LEASE_TIMEOUT_MULTIPLIER chunk budgets of timeoutSeconds
+ */
+async function claimScanLease(context: JobContext, owner: string, takeOver: boolean, timeoutSeconds: number): Promise<boolean> {
+	const now = Date.now();
+	const txn = await context.redis.watch(SCAN_LEASE_KEY);
+	const current = await readScanLease(context);
+	const allowed = current ? current.owner === owner || (takeOver && current.expiresAt <= now) : takeOver;
+	if (!allowed) {
+		await txn.unwatch();
+		return false;
+	}
+	if (current && current.owner !== owner) console.warn(`⚠️ Taking over stale flair scan lease from ${current.owner} (expired ${formatDuration(now - current.expiresAt)} ago).`);
+
+	const lease: ScanLease = {
+		owner,
+		acquiredAt: current?.owner === owner ? current.acquiredAt : now,
+		expiresAt: now + timeoutSeconds * 1000 * SCAN_LEASE_TIMEOUT_MULTIPLIER,
+	};
+	try {
+		await txn.multi();
+		await txn.set(SCAN_LEASE_KEY, JSON.stringify(lease), { expiration: new Date(lease.expiresAt) });
+		await txn.exec();
+	} catch (err) {
+		console.warn("Flair scan lease changed while claiming it:", err);
+		return false;
+	}
+	if ((await readScanLease(context))?.owner !== owner) return false;
+	await safeKVWrite(context, "flairScanHeartbeat", now);
+	return true;
+}
+
+async function releaseScanLease(context: JobContext, owner: string) {
+	try {
+		const txn = await context.redis.watch(SCAN_LEASE_KEY);
+		if ((await readScanLease(context))?.owner !== owner) {
+			await txn.unwatch();
+			return;
+		}
+		await txn.multi();
+		await txn.del(SCAN_LEASE_KEY);
+		await txn.exec();
+	} catch (err) {
+		console.warn("Could not release flair scan lease:", err);
+	}
+}
+
+async function isScanCancelled(context: JobContext): Promise<boolean> {
+	return !!(await context.kvStore.get("flairScanCancelled"));
+}
+
+/* mayContinueScan: checked between pages; false once the scan was cancelled or this chunk lost its lease */
+async function mayContinueScan(context: JobContext, leaseOwner: string, timeoutSeconds: number): Promise<boolean> {
+	if (await isScanCancelled(context)) {
+		console.log("⏹️ Flair scan cancelled; stopping chunk.");
+		return false;
+	}
+	if (!(await claimScanLease(context, leaseOwner, false, timeoutSeconds))) {
+		console.warn(`⚠️ Flair scan lease ${leaseOwner} lost; stopping chunk without writing.`);
+		return false;
+	}
+	return true;
+}
+
+/* Chunk job: run one chunk from the partial scan, then queue the next until the scan completes */
+Devvit.addSchedulerJob({
+	name: SCAN_JOB_NAME,
+	onRun: async (_, context) => {
+		await safeKVDelete(context, "flairScanJobId");
+
+		// cleared or cancelled while this job was queued
+		if (!(await context.kvStore.get("flairScanInProgress")) || (await isScanCancelled(context))) {
+			console.log("⚪️ Flair scan job skipped: no scan in progress.");
+			return;
+		}
+
+		// another chunk is still running (e.g. a resume raced the job chain): let it carry on
+		const leaseOwner = `chunk-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+		const { devvitExecutionTimeoutSeconds } = await getAppSettings(context);
+		if (!(await claimScanLease(context, leaseOwner, true, devvitExecutionTimeoutSeconds))) {
+			console.log("⚪️ Flair scan job skipped: another chunk holds the scan lease.");
+			return;
+		}
+
+		try {
+			const partial = await readManifest(context, "partial");
+			if (!partial) {
+				console.warn("Flair scan job found no partial; stopping.");
+				await safeKVWrite(context, "flairScanInProgress", false);
+				return;
+			}
+
+			const subredditName = await context.reddit.getCurrentSubredditName();
+			const result = await continueScan(context, subredditName, partial, leaseOwner);
+			if (!result) return; // cancelled, or taken over by another chunk
+			if (result.completed) {
+				const flairCount = Object.keys(await readFlairCounts(context, "result")).length;
+				console.log(`🟢 Flair scan completed: ${formatNumberWithCommas(result.scannedUsers)} users, ${formatNumberWithCommas(flairCount)} flairs.`);
+				await recordFlairAudit(context, {
+					user: "scheduler",
+					action: "scan completed",
+					outcome: "ok",
+					detail: `${formatNumberWithCommas(result.scannedUsers)} users, ${formatNumberWithCommas(flairCount)} flairs`,
+				});
+				return;
+			}
+			// cancelled while the chunk ran
+			if (!(await context.kvStore.get("flairScanInProgress"))) return;
+			await scheduleScanChunk(context);
+		} catch (err) {
+			// failure state already persisted by the chunk function
+			console.error("Flair scan job error:", err);
+			await recordFlairAudit(context, { user: "scheduler", action: "scan chunk", outcome: "failed", detail: String(err) });
+		} finally {
+			await releaseScanLease(context, leaseOwner);
+		}
+	},
+});
+
+/* Recurring job: starts a full rescan when the flairScanFrequency setting says one is due */
+Devvit.addSchedulerJob({
+	name: RECURRING_SCAN_JOB_NAME,
+	onRun: async (_, context) => {
+		const { flairScanFrequency } = await getAppSettings(context);
+		if (flairScanFrequency !== "daily" && flairScanFrequency !== "weekly") return;
+
+		if (await context.kvStore.get("flairScanInProgress")) {
+			if (await isScanStalled(context)) {
+				console.log("⚠️ Flair scan stalled; re-queuing chunk job.");
+				await scheduleScanChunk(context, 0);
+				await noteScanRetry(context);
+			}
+			return;
+		}
+
+		const completedAt = await context.kvStore.get("flairScanCompletedAt");
+		const intervalMs = (flairScanFrequency === "weekly" ? 7 : 1) * 24 * 60 * 60 * 1000;
+		// allow an hour of slack so a daily cron never skips a day because the last scan finished late
+		if (typeof completedAt === "number" && Date.now() - completedAt < intervalMs - 60 * 60 * 1000) return;
+
+		console.log(`⚪️ Starting ${flairScanFrequency} background flair rescan...`);
+		await deleteSlot(context, "partial");
+		await startBackgroundScan(context, "scheduler");
+		await recordFlairAudit(context, { user: "scheduler", action: "start scan", outcome: "ok", detail: `${flairScanFrequency} rescan` });
+	},
+});
+
+/* (re)register the recurring cron job so exactly one exists per installation */
+async function scheduleRecurringScan(context: JobContext) {
+	const jobs = await context.scheduler.listJobs();
+	for (const job of jobs) {
+		if (job.name === RECURRING_SCAN_JOB_NAME) await context.scheduler.cancelJob(job.id);
+	}
+	await context.scheduler.runJob({ name: RECURRING_SCAN_JOB_NAME, cron: RECURRING_SCAN_CRON });
+}
+
+Devvit.addTrigger({
+	events: ["AppInstall", "AppUpgrade"],
+	onEvent: async (_, context) => {
+		try {
+			await scheduleRecurringScan(context);
+		} catch (err) {
+			console.error("Could not schedule recurring flair scan:", err);
+		}
+	},
+});
+
+/* formatUserTotals: users counted in groups, and how many more the listing had that weren't counted */
+export function formatUserTotals(manifest: FlairScanManifest): string {
+	const counted = `Total users: ${formatNumberWithCommas(manifest.scannedUsers)}`;
+	if (manifest.seenUsers === undefined || manifest.seenUsers <= manifest.scannedUsers) return counted;
+	const leftOut = manifest.seenUsers - manifest.scannedUsers;
+	return `${counted} counted of ${formatNumberWithCommas(manifest.seenUsers)} seen (${formatNumberWithCommas(leftOut)} without flair text or style left out)`;
+}
+
+/* buildScanPreview: status text for the form (progress while running, breakdown once completed) */
+function buildScanPreview(
+	full: FlairScanManifest | null,
+	fullCounts: Record<string, number>,
+	partial: FlairScanManifest | null,
+	scanRunning: boolean,
+	stalled = false
+): string {
+	const sections: string[] = [];
+	if (scanRunning && partial) {
+		sections.push(
+			`⏱️ ${formatDuration(Date.now() - partial.timestamp)}, ${formatNumberWithCommas(partial.seenUsers ?? partial.scannedUsers)} users scanned so far (page ${
+				partial.lastPageNumber ?? 0
+			}).\n` + (stalled ? "⚠️ Scan appears stalled. Press Resume Scan to restart it." : "Scanning in the background. Press Refresh to update.")
+		);
+	}
+	if (full) {
+		sections.push(
+			`Total flairs: ${formatNumberWithCommas(Object.keys(fullCounts).length)}\n${formatUserTotals(full)}\nFlair Breakdown (⏱️ ${formatDuration(Date.now() - full.timestamp)}):\n${formatFlairCountLines(fullCounts)}`
+		);
+	}
+	return sections.join("\n\n");
+}
+
+/* showProgressForm: read KV state and render the status form (manifests and counts only, never the user lists) */
+async function showProgressForm(context: Devvit.Context) {
+	const full = await readManifest(context, "result");
+	const fullCounts = full ? await readFlairCounts(context, "result") : {};
+	const partial = await readManifest(context, "partial");
+
+	const scanRunning = !!(await context.kvStore.get("flairScanInProgress"));
+	const failedScan = !!(await context.kvStore.get("flairScanFailed"));
+	const stalled = scanRunning && (await isScanStalled(context));
+
+	let preview = buildScanPreview(full, fullCounts, partial, scanRunning, stalled);
+	const integrity = full ? await getScanIntegrityReport(context) : null;
+	if (integrity) preview = `${formatIntegritySummary(integrity)}\n\n${preview}`;
+	if (full) preview = `${await formatFreshnessNote(context, full)}\n\n${preview}`;
+	if (failedScan) {
+		const msg = (await context.kvStore.get("flairScanFailedMessage")) as string | null;
+		const resumeNote = partial?.lastPageNumber
+			? `\nRetry Scan continues after page ${partial.lastPageNumber} (${formatNumberWithCommas(partial.seenUsers ?? partial.scannedUsers)} users kept).`
+			: "";
+		preview = `Scan failed: ${msg ?? "Unknown error"}${resumeNote}` + (preview ? `\n\n${preview}` : "");
+	}
+	if (!preview) preview = "No scan yet. Press Start Scan to scan in the background.";
+
+	const flairOptions = Object.entries(fullCounts)
+		.sort(([, a], [, b]) => b - a)
+		.slice(0, DRILLDOWN_FLAIR_OPTIONS)
+		.map(([flair, count]) => ({ label: `${flair} (${formatNumberWithCommas(count)})`, value: flair }));
 
-	// show form (do not await)
 	context.ui.showForm(flairForm, {
-		full: result.completed ? (JSON.parse(JSON.stringify(result)) as JSONValue) : null,
-		scanRunning: !result.completed,
-		failedScan: false,
+		full: full ? (JSON.parse(JSON.stringify(full)) as JSONValue) : null,
+		flairOptions,
+		scanRunning,
+		failedScan,
+		stalled,
 		preview,
 	});
 }
 
+/* ---------- Part 4b: Scan controls (shared by the form and the dashboard post) ---------- */
+
+export interface FlairScanStatus {
+	scanRunning: boolean;
+	failedScan: boolean;
+	failedMessage: string | null;
+	stalled: boolean;
+	heartbeat: number | null;
+	partial: FlairScanManifest | null;
+	full: FlairScanManifest | null;
+}
+
+export async function getFlairScanStatus(context: JobContext): Promise<FlairScanStatus> {
+	const scanRunning = !!(await context.kvStore.get("flairScanInProgress"));
+	const failedScan = !!(await context.kvStore.get("flairScanFailed"));
+	const heartbeat = await context.kvStore.get("flairScanHeartbeat");
+	return {
+		scanRunning,
+		failedScan,
+		failedMessage: failedScan ? (((await context.kvStore.get("flairScanFailedMessage")) as string | null) ?? null) : null,
+		stalled: scanRunning && (await isScanStalled(context)),
+		heartbeat: typeof heartbeat === "number" ? heartbeat : null,
+		partial: await readManifest(context, "partial"),
+		full: await readManifest(context, "result"),
+	};
+}
+
+/* startOrRetryScan: start a fresh scan, or retry a failed one from its checkpoint (permission-checked and audited) */
+export async function startOrRetryScan(context: Devvit.Context): Promise<boolean> {
+	const failedScan = !!(await context.kvStore.get("flairScanFailed"));
+	if (!(await requireFlairPermission(context, "scan", failedScan ? "retry a flair scan" : "start a flair scan"))) return false;
+	try {
+		if (!failedScan) await deleteSlot(context, "partial");
+		await startBackgroundScan(context, (await context.reddit.getCurrentUsername()) ?? "unknown");
+		await recordFlairAudit(context, { action: failedScan ? "retry scan" : "start scan", outcome: "ok" });
+	} catch (err) {
+		await recordFlairAudit(context, { action: failedScan ? "retry scan" : "start scan", outcome: "failed", detail: String(err) });
+		throw err;
+	}
+	context.ui.showToast("User Flair scan started in the background");
+	return true;
+}
+
+/* resumeStalledScan: re-queue the chunk job of a scan whose heartbeat went stale */
+export async function resumeStalledScan(context: Devvit.Context): Promise<boolean> {
+	if (!(await isScanStalled(context))) return false;
+	if (!(await requireFlairPermission(context, "scan", "resume a flair scan"))) return false;
+	context.ui.showToast("Resuming stalled flair scan...");
+	await scheduleScanChunk(context, 0);
+	await noteScanRetry(context);
+	await recordFlairAudit(context, { action: "resume stalled scan", outcome: "ok" });
+	return true;
+}
+
+/* cancelFlairScan: stop the running scan and clear stored results */
+export async function cancelFlairScan(context: Devvit.Context): Promise<boolean> {
+	if (!(await requireFlairPermission(context, "manage", "cancel a flair scan"))) return false;
+	await clearScan(context, 'User selected to cancel');
+	return true;
+}
+
 /* ---------- Part 5: Form + Menu wiring, reset/version, inspect ---------- */
 
-/* Form creation (Devvit.createForm) — keep simple UI; handlers below rely on KV state */
+/* Form creation (Devvit.createForm) — status only; the scan itself runs in the scheduler job */
 const flairForm = Devvit.createForm(
 	(data) => ({
 		title: data.scanRunning
@@ -303,7 +1128,7 @@ const flairForm = Devvit.createForm(
 			: data.full
 			? "🟢 Flair Scan — Results"
 			: "⚪️ Flair Scan — No Scan Yet",
-		acceptLabel: data.scanRunning ? "Continue Scan" : data.failedScan ? "Retry Scan" : data.full ? "Refresh" : "Start Scan",
+		acceptLabel: data.scanRunning ? (data.stalled ? "Resume Scan" : "Refresh") : data.failedScan ? "Retry Scan" : data.full ? "Rescan" : "Start Scan",
 		cancelLabel: "Close",
 		fields: [
 			{
@@ -319,49 +1144,82 @@ const flairForm = Devvit.createForm(
         type: 'boolean',
         label: "Cancel Scan",
       },
+			...(data.flairOptions?.length > 0
+				? [
+						{
+							name: "viewFlair",
+							type: "select" as const,
+							label: "View users with flair",
+							options: data.flairOptions,
+							defaultValue: [],
+							multiSelect: false,
+							helpText: "Pick a flair to page through its users instead of the scan button",
+						},
+				  ]
+				: []),
+			...(flairFormActions.length > 0
+				? [
+						{
+							name: "moreActions",
+							type: "select" as const,
+							label: "More actions",
+							options: flairFormActions.map(({ label, value }) => ({ label, value })),
+							defaultValue: [],
+							multiSelect: false,
+							helpText: "Pick an action to run it instead of the scan button",
+						},
+				  ]
+				: []),
 		],
 	}),
 	/* handler: form approval */
 	async ({ values }, context) => {
 		const scanRunning = !!(await context.kvStore.get("flairScanInProgress"));
-		const failedScan = !!(await context.kvStore.get("flairScanFailed"));
-		const subreddit = await context.reddit.getCurrentSubreddit();
 
     if(values.cancelScan) {
-      await clearScan(context, 'User selected to cancel');
+      await cancelFlairScan(context);
       return;
     }
 
-		// if scanning, treat accept as "Continue Scan"
-		if (scanRunning && !failedScan) {
-			//context.ui.showToast("⚪️ Continuing scan...");
-			const partialRaw = await context.kvStore.get("flairScanPartial");
-			const partial: FlairScanResult = partialRaw
-				? (partialRaw as unknown as FlairScanResult)
-				: { flairGroups: {}, after: null, timestamp: Date.now(), completed: false, scannedUsers: 0, lastPageNumber: 0, toastShown: false };
-			// show a toast (console log too)
-			//console.log("⚠️ Showing long-run warning toast to user... (continue)");
-			//context.ui.showToast("⚠️ Continuing scan chunk — this may take up to 30s.");
-
-			const result = await continueScan(context, subreddit.name, partial);
-			showProgressForm(context, result);
+		const actionValue = Array.isArray(values.moreActions) ? values.moreActions[0] : undefined;
+		const action = actionValue ? flairFormActions.find((a) => a.value === actionValue) : undefined;
+		if (action) {
+			if (!(await requireFlairPermission(context, action.permission ?? "view", action.label.toLowerCase()))) return;
+			await action.run(context);
 			return;
 		}
 
-		// otherwise accept acts as Start/Retry/Refresh
-		await safeKVDelete(context, "flairScanFailed");
-		await safeKVDelete(context, "flairScanFailedMessage");
+		const viewFlair = Array.isArray(values.viewFlair) ? values.viewFlair[0] : undefined;
+		if (viewFlair) {
+			await showFlairUsersPage(context, viewFlair, 0);
+			return;
+		}
 
-		// set scan start if missing
-		const scanStartedAtRaw = await context.kvStore.get("flairScanStartedAt");
-		if (!scanStartedAtRaw) await safeKVWrite(context, "flairScanStartedAt", Date.now());
+		// while scanning, accept just refreshes the status (or restarts a stalled job chain)
+		if (scanRunning) {
+			if ((await isScanStalled(context)) && !(await resumeStalledScan(context))) return;
+			await showProgressForm(context);
+			return;
+		}
 
-		const quickResult = await startQuickScan(context, subreddit.name);
-		// quickResult persisted by chunk function when appropriate
-		showProgressForm(context, quickResult);
+		// otherwise accept acts as Start/Retry/Rescan
+		if (!(await startOrRetryScan(context))) return;
+		await showProgressForm(context);
 	}
 );
 
+registerFlairFormAction({
+	value: "scanHistory",
+	label: "Scan run history",
+	run: showScanRunHistory,
+});
+
+registerFlairFormAction({
+	value: "auditLog",
+	label: "View audit log",
+	run: showFlairAuditLog,
+});
+
 /* Menu item wiring */
 Devvit.addMenuItem({
 	label: "User Flairs",
@@ -370,76 +1228,19 @@ Devvit.addMenuItem({
 	forUserType: "moderator",
 	onPress: async (_, context) => {
 		try {
-			await resetFlairScanIfAppUpdated(context, context.appVersion);
-
-			const fullRaw = await context.kvStore.get("flairScanResult");
-			const full = fullRaw ? (fullRaw as unknown as FlairScanResult) : null;
-
-			const partialRaw = await context.kvStore.get("flairScanPartial");
-			const partial = partialRaw ? (partialRaw as unknown as FlairScanResult) : null;
-
-			const scanRunning = !!(await context.kvStore.get("flairScanInProgress"));
-			const failedScan = !!(await context.kvStore.get("flairScanFailed"));
-
-			let preview: string;
-      if(scanRunning || partial || full || failedScan) {
-        if (scanRunning && partial) {
-          preview = `⏱️ ${formatDuration(Date.now() - partial.timestamp)}, ${formatNumberWithCommas(
-            partial.scannedUsers
-          )} users scanned so far.`;
-          // show warning toast once per partial
-          if (!partial.toastShown) {
-            //console.log("⚠️ Showing long-run warning toast to user... (initial from menu)");
-            //context.ui.showToast("⚠️ This scan may take multiple chunks. Press Continue Scan to proceed.");
-            await safeKVWrite(context, "flairScanPartial", { ...partial, toastShown: true });
-          }
-        } else if (full) {
-          preview = `Total flairs: ${formatNumberWithCommas(Object.keys(full.flairGroups).length)}\nTotal users: ${formatNumberWithCommas(
-            full.scannedUsers
-          )}\nFlair Breakdown (⏱️ ${formatDuration(Date.now() - full.timestamp)}):\n${formatFlairPreviewCounts(full.flairGroups)}`;
-        } else if (failedScan) {
-          const msg = (await context.kvStore.get("flairScanFailedMessage")) as string | null;
-          preview = `Scan failed: ${msg ?? "Unknown error"}`;
-        } else {
-          preview = "No scan yet. Opening will start a scan.";
-        }
-        context.ui.showForm(flairForm, {
-        	full: full ? (JSON.parse(JSON.stringify(full)) as JSONValue) : null,
-        	scanRunning,
-        	failedScan,
-        	preview,
-        });
-      }
-
-			// Auto-start: if no full, no partial, no running — start quick scan in background
-			if (!full && !partial && !(await context.kvStore.get("flairScanInProgress"))) {
+			if (!(await requireFlairPermission(context, "view", "view user flairs"))) return;
+			await resetFlairScanIfFormatChanged(context);
+
+			// Auto-start: if nothing has ever been scanned (and this mod may scan), queue a background scan
+			const hasResult = !!(await readManifest(context, "result"));
+			const hasPartial = !!(await readManifest(context, "partial"));
+			if (!hasResult && !hasPartial && !(await context.kvStore.get("flairScanInProgress")) && (await hasFlairPermission(context, "scan"))) {
 				console.log("⚪️ No previous scan found, starting new scan...");
-				await safeKVWrite(context, "flairScanStartedAt", Date.now());
-				const initialPartial: FlairScanResult = {
-					flairGroups: {},
-					after: null,
-					timestamp: Date.now(),
-					completed: false,
-					scannedUsers: 0,
-					lastPageNumber: 0,
-					toastShown: false,
-				};
-				await safeKVWrite(context, "flairScanPartial", initialPartial);
-				await safeKVWrite(context, "flairScanInProgress", true);
-
-				// attempt a quick chunk in the background (non-blocking)
-				// result will be persisted by chunk function if it finishes
-				startQuickScan(context, (await context.reddit.getCurrentSubreddit()).name)
-					.then((res) => {
-						if (res && res.completed) {
-							console.log("Quick scan completed quickly; showing results.");
-						} else {
-							console.log("Quick scan started in background; user must Continue to progress manually.");
-						}
-            showProgressForm(context, res);
-					})
-					.catch((err) => console.error("startQuickScan background error:", err));
+				await startBackgroundScan(context, (await context.reddit.getCurrentUsername()) ?? "unknown");
+				await recordFlairAudit(context, { action: "start scan", outcome: "ok", detail: "first open, no previous scan" });
 			}
+
+			await showProgressForm(context);
 		} catch (err: unknown) {
 			console.error("User Flairs menu error:", err);
 			context.ui.showToast("Failed to open User Flairs");
@@ -447,33 +1248,44 @@ Devvit.addMenuItem({
 	},
 });
 
-/* reset on app update */
-async function resetFlairScanIfAppUpdated(context: Devvit.Context, currentVersion: string) {
+/* reset only when an app update changed the stored scan format; other updates keep the result and any running scan */
+async function resetFlairScanIfFormatChanged(context: Devvit.Context) {
 	try {
-		const lastVersionRaw = (await context.kvStore.get("appVersion")) as unknown;
-		const lastVersion: string | null = typeof lastVersionRaw === "string" ? lastVersionRaw : null;
-		if (lastVersion !== currentVersion) {
-			await clearScan(context, "App version change: lastVersion → currentVersion");
-			await safeKVWrite(context, "appVersion", currentVersion);
-			console.log("Flair scan cleared due to app version change:", lastVersion, "→", currentVersion);
+		for (const slot of ["partial", "result"] as const) {
+			const manifest = await readManifest(context, slot);
+			const version = manifest ? manifest.formatVersion ?? 1 : SCAN_STORAGE_FORMAT;
+			if (version !== SCAN_STORAGE_FORMAT) {
+				await clearScan(context, `stored scan format changed: ${version} → ${SCAN_STORAGE_FORMAT}`, "reset");
+				console.log("Flair scan cleared due to storage format change:", version, "→", SCAN_STORAGE_FORMAT);
+				return;
+			}
 		}
 	} catch (err: unknown) {
-		console.warn("Could not check/reset app version KV:", err);
+		console.warn("Could not check the stored scan format:", err);
 	}
 }
 
-async function clearScan(context:Devvit.Context, clearReason = '') {
+async function clearScan(context:Devvit.Context, clearReason = '', runOutcome: "cancelled" | "reset" = "cancelled") {
   try {
-			await safeKVDelete(context, "flairScanPartial");
-			await safeKVDelete(context, "flairScanResult");
+			// a chunk that is mid-page sees the flag (or its lost lease) and stops before writing
+			await safeKVWrite(context, "flairScanCancelled", true);
+			await context.redis.del(SCAN_LEASE_KEY);
+			await finishScanRun(context, runOutcome);
+			await cancelScheduledScanChunk(context);
+			await deleteSlot(context, "partial");
+			await deleteSlot(context, "result");
 			await safeKVDelete(context, "flairScanInProgress");
 			await safeKVDelete(context, "flairScanFailed");
 			await safeKVDelete(context, "flairScanFailedMessage");
 			await safeKVDelete(context, "flairScanStartedAt");
-      clearReason ?? context.ui.showToast('User Flair scan cleared: ' + clearReason);
+			await safeKVDelete(context, "flairScanDirtySince");
+			await safeKVDelete(context, "flairScanIncrementalUpdates");
+      if (clearReason) context.ui.showToast('User Flair scan cleared: ' + clearReason);
+      await recordFlairAudit(context, { action: "clear scan", outcome: "ok", detail: clearReason || undefined });
   }
 	catch (err: unknown) {
 		console.warn("Could not clear User Flair scan:", err);
+		await recordFlairAudit(context, { action: "clear scan", outcome: "failed", detail: String(err) });
 	}
 }
 
@@ -487,8 +1299,10 @@ async function inspectFlairScanStatus(context: Devvit.Context) {
 		"flairScanStartedAt",
 		"flairScanCompletedAt",
 		"flairScanHeartbeat",
-		"flairScanPartial",
-		"flairScanResult",
+		"flairScanJobId",
+		"flairScanDirtySince",
+		"flairScanIncrementalUpdates",
+		"flairScanIntegrity",
 	];
 
 	console.log("===== FLAIR SCAN STATUS =====");
@@ -499,171 +1313,23 @@ async function inspectFlairScanStatus(context: Devvit.Context) {
 		} catch (err) {
 			value = `ERROR: ${err}`;
 		}
-		// summarize partial/result to avoid huge logs
-		if (value && typeof value === "object" && "flairGroups" in (value as any)) {
-			const partial = value as FlairScanResult;
-			console.log(`${key}: flairs: ${Object.keys(partial.flairGroups).length}, scannedUsers: ${partial.scannedUsers}`);
-			continue;
-		}
 		console.log(`${key}:`, value);
 	}
+	// summarize partial/result manifests to avoid huge logs
+	for (const slot of ["partial", "result"] as const) {
+		const manifest = await readManifest(context, slot);
+		const flairs = manifest ? Object.keys(await readFlairCounts(context, slot)).length : 0;
+		console.log(`${slot}:`, manifest ? `flairs: ${flairs}, scannedUsers: ${manifest.scannedUsers}, after: ${manifest.after}, completed: ${manifest.completed}` : null);
+	}
+	console.log("lease:", await readScanLease(context));
+	const integrity = await getScanIntegrityReport(context);
+	if (integrity) console.log("integrity summary:", formatIntegritySummary(integrity));
 	console.log("===== END STATUS =====");
 }
 
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-//Old flair menu and form:
 /**
- * User Flairs
- */
-/*Devvit.addMenuItem({
-  label: "User Flairs",
-  description: "Display users with specified flair names",
-  location: "subreddit",
-  forUserType: "moderator",
-  onPress: async (_, context) => {
-    try {
-      if(!await checkForModPerms(context, ['flair'])) {
-          context.ui.showToast("You need 'flair' perm to view user flairs.");
-          return;
-      }
-
-      const flairGroups = await getFlairGroups(context, '');
-      const flairBreakdown = getFlairBreakdown(flairGroups);
-      
-      if (flairBreakdown.length === 0) {
-        context.ui.showToast("No user flairs found.");
-        return;
-      }
-
-      const flairOptions = getFlairOptions(flairGroups);
-
-      context.ui.showForm(userFlairForm, { flairOptions, flairBreakdown });
-    }
-    catch(error) {
-      console.error('Error generated user flair breakdwn:', error, '\nCaller stack:\n', new Error().stack?.split('\n').slice(1,5).join('\n'));
-      context.ui.showToast('Error generated user flair breakdwn (' + error + ')');
-      throw error;
-    }
-  }
-});*/
-
-/**
- * First form: select a flair name
- */
-const userFlairForm = Devvit.createForm(
-  (data) => ({
-    fields: [
-      {
-        name: 'flairFilter',
-        label: 'Flair Filter',
-        type: 'string',
-        defaultValue: data?.flairFilterValue,
-        helpText: 'Enter any text to filter on flairs',
-      },
-      {
-        name: "flairSelectFilter",
-        label: "Flair Filter",
-        type: "select",
-        options: (data?.flairOptions || []),
-        helpText: "Select a flair to filter (if not typed above)",
-        defaultValue: !data?.flairFilterValue && data?.flairSelectValue
-                 ? [data.flairSelectValue]   // use select value only if string is empty/undefined
-                 : [],                        // otherwise, leave empty
-        multiSelect: false, //TODO handle selcting multiple?
-        size: 10,
-        allowCustomValue: false,
-      },
-      {
-        name: 'flairBreakdown',
-        label: 'Flair Breakdown',
-        type: 'paragraph',
-        defaultValue: data.flairBreakdown,
-        lineHeight: 10,
-        disabled: true,
-      },
-    ],
-    title: "User Flairs",
-    acceptLabel: "Filter",
-    cancelLabel: "Close",
-  }),
-  async ({ values }, context) => {
-    try {
-        const flairFilterValue = 
-            (values.flairFilter && values.flairFilter !== '') 
-                ? values.flairFilter 
-                : (Array.isArray(values.flairSelectFilter) && values.flairSelectFilter.length > 0 
-                    ? values.flairSelectFilter[0] 
-                    : '');
-        //const selectedFlair = values.flairnames[0];
-        //Build the flairToUsernames map here, as you cannot access data in the handler
-        //const flairToUsernames: Record<string, string[]> = {};
-        const subreddit = await context.reddit.getCurrentSubreddit();
-
-        console.log('------------------------------------------------------------------------');
-        console.log("New 'User Flairs' Form Submitted" + (flairFilterValue === "" ? "(Flair Filter: " + flairFilterValue + ")" : ""));
-        console.log('------------------------------------------------------------------------');
-        console.log('r/' + subreddit.name + ' by u/' + await context.reddit.getCurrentUsername());
-        console.log('-----------------------------\n');
-
-        // const response = await subreddit.getUserFlair();
-        // const userFlairs = response.users;
-        // for (const userFlair of userFlairs) {
-        //   const flairName = userFlair.flairText || "<No Text>";
-        //   const username = userFlair.user;
-        //   if (!flairToUsernames[flairName]) {
-        //     flairToUsernames[flairName] = [];
-        //   }
-        //   if (username) {
-        //     flairToUsernames[flairName].push(username);
-        //   }
-        // }
-        // const users = flairToUsernames[selectedFlair] || [];
-        // if (!selectedFlair || users.length === 0) {
-        //   context.ui.showToast("No users found for this flair.");
-        //   return;
-        // }
-        //context.ui.showForm(userFlairUsersForm, { selectedFlair, users });
-        //const users = flairToUsernames[flairFilterValue] || [];
-        const fullFlairGroups = await getFlairGroups(context);
-        const flairOptions = getFlairOptions(fullFlairGroups); 
-        const flairGroups = await getFlairGroups(context, flairFilterValue);
-        const flairBreakdown = getFlairBreakdown(flairGroups);
-        context.ui.showForm(userFlairForm, {
-        flairFilterValue: values.flairFilter || '',           // typed text stays in string field
-        flairSelectValue: (Array.isArray(values.flairSelectFilter) && values.flairSelectFilter.length > 0)
-                            ? values.flairSelectFilter[0]
-                            : '',                               // select field keeps its selected option
-        flairOptions,                                         // dropdown options
-        flairBreakdown                                        // filtered breakdown
-        });
-    }
-    catch(error) {
-        console.error('Error displays flairs:', error, '\nCaller stack:\n', new Error().stack?.split('\n').slice(1,5).join('\n'));
-        context.ui.showToast('Error displaying flairs\n(' + error + ')');
-        throw error;
-    }
-  }
-);
-
-/**
- * Second form: display users with the selected flair
+ * User list form: display one page of users with the selected flair
+ * (the handler can't see the form data, so the flair and page being viewed are kept in KV per moderator)
  */
 const userFlairUsersForm = Devvit.createForm(
   (data) => ({
@@ -680,88 +1346,87 @@ const userFlairUsersForm = Devvit.createForm(
         multiSelect: false,
         size: 10,
       },
+      ...(data.pageCount > 1
+        ? [
+            {
+              name: "pageNav",
+              label: `Page ${data.page + 1} of ${data.pageCount}`,
+              type: "select" as const,
+              options: [
+                ...(data.page > 0 ? [{ label: "Previous page", value: "previous" }] : []),
+                ...(data.page < data.pageCount - 1 ? [{ label: "Next page", value: "next" }] : []),
+              ],
+              defaultValue: [],
+              multiSelect: false,
+              helpText: "Pick a page to go there instead of opening a profile",
+            },
+          ]
+        : []),
     ],
-    title: "Users with Flair: " + (data?.selectedFlair + " (" + data?.users.length + " users)" || ""),
+    title: "Users with Flair: " + (data?.selectedFlair ?? "") + " (" + formatNumberWithCommas(data?.totalUsers ?? 0) + " users)",
     acceptLabel: "Open Profile",
     cancelLabel: "Cancel",
   }),
   async ({ values }, context) => {
+    const viewer = (await context.reddit.getCurrentUsername()) ?? "unknown";
+    const viewing = (await context.kvStore.get(`flairDrilldown:${viewer}`)) as { flair: string; page: number } | undefined;
+
+    const pageNav = Array.isArray(values.pageNav) ? values.pageNav[0] : undefined;
+    if (pageNav && viewing) {
+      await showFlairUsersPage(context, viewing.flair, viewing.page + (pageNav === "next" ? 1 : -1));
+      return;
+    }
+
     if (!values.usernames || values.usernames.length === 0) {
       context.ui.showToast("No user selected.");
       return;
     }
-    context.ui.navigateTo("https://www.reddit.com/user/" + values.usernames[0]);
+    context.ui.navigateTo(formatRedditUrl(context, "https://www.reddit.com/user/" + values.usernames[0] + "/"));
   }
 );
 
-/**
- * Build a flair-to-usernames mapping for a subreddit.
- */
-export async function getFlairGroups(
-  context: Devvit.Context,
-  flairFilterValue?: string
-): Promise<Record<string, string[]>> {
-  const flairGroups: Record<string, string[]> = {};
-  const subreddit = await context.reddit.getCurrentSubreddit();
-  let response = await subreddit.getUserFlair();
-  //let response = await subreddit.getUserFlair();
-  //const userFlairs = response.users
-
-  let reachedEnd = false;
-  while(!reachedEnd) {
-    const userFlairs = response.users;
-    for (const userFlair of userFlairs) {
-      const flairText = userFlair.flairText || "No Flair";
-      const username = userFlair.user || "Unknown";
-
-      // Apply optional filter if provided
-      if (
-        !flairFilterValue ||
-        flairText.toLowerCase().includes(flairFilterValue.toLowerCase())
-      ) {
-        if (!flairGroups[flairText]) {
-          flairGroups[flairText] = [];
-        }
-        flairGroups[flairText].push(username);
-      }
-    }
-    if(response.next) {
-      console.log('Handled ' + userFlairs.length + ' users, getting next page');
-      response = await subreddit.getUserFlair({'after': response.next});
-    }
-    else {
-      console.log('Last page, exiting');
-      reachedEnd = true;
+/* showFlairUsersPage: open the paged user list for one flair of the completed scan */
+async function showFlairUsersPage(context: Devvit.Context, flair: string, page: number) {
+  try {
+    const users = await readFlairGroup(context, "result", flair);
+    if (users.length === 0) {
+      context.ui.showToast(`No users currently have "${flair}".`);
+      return;
     }
+    const pageCount = Math.ceil(users.length / DRILLDOWN_PAGE_SIZE);
+    const current = Math.min(Math.max(0, page), pageCount - 1);
+    const viewer = (await context.reddit.getCurrentUsername()) ?? "unknown";
+    await safeKVWrite(context, `flairDrilldown:${viewer}`, { flair, page: current });
+
+    context.ui.showForm(userFlairUsersForm, {
+      selectedFlair: flair,
+      totalUsers: users.length,
+      page: current,
+      pageCount,
+      users: users.slice(current * DRILLDOWN_PAGE_SIZE, (current + 1) * DRILLDOWN_PAGE_SIZE),
+    });
+  }
+  catch(error) {
+    console.error('Error displaying users with flair:', error);
+    context.ui.showToast('Error displaying users with flair (' + error + ')');
   }
-
-  return flairGroups;
-}
-
-/**
- * Create a list of flair options (for selects or filters) from flairGroups.
- */
-export function getFlairOptions(flairGroups: Record<string, string[]>) {
-  return Object.keys(flairGroups).map((flairText) => {
-    return {
-      label: `${flairText}`,
-      value: flairText,
-    };
-  });
 }
 
 /**
  * Convert a flairGroups object into a human-readable string.
+ * (maxUsersPerFlair caps each list, with a "…and N more" line)
  */
 export function getFlairBreakdown(
-  flairGroups: Record<string, string[]>
+  flairGroups: Record<string, string[]>,
+  maxUsersPerFlair = Infinity
 ): string {
   let flairBreakdown = "";
 
     Object.keys(flairGroups).forEach(flairText => {
     const users = flairGroups[flairText];
     const count = users.length;
-    const usernames = users.map(u => `• u/${u}`).join('\n');
+    let usernames = users.slice(0, maxUsersPerFlair).map(u => `• u/${u}`).join('\n');
+    if (count > maxUsersPerFlair) usernames += `\n• …and ${formatNumberWithCommas(count - maxUsersPerFlair)} more`;
     flairBreakdown += `${flairText} (${count} user${count === 1 ? '' : 's'}):\n${usernames}\n\n`;
     });
 
@@ -1,6 +1,28 @@
-import { Devvit, SettingScope } from "@devvit/public-api";
+import { Devvit, JobContext, SettingScope } from "@devvit/public-api";
+import { FLAIR_NORMALIZE_RULE_OPTIONS, parseRegexRewrites } from './FlairNormalization.js';
+import { MOD_PERMISSION_OPTIONS } from './FlairPermissions.js';
+import { parseFlairPatterns } from './FlairCensus.js';
+import { FLAIR_POLICY_FIX_OPTIONS, parsePolicyPatterns } from './FlairPolicy.js';
+import { parseProtectedFlairs } from './FlairImpersonation.js';
+import { parseAlertRules } from './FlairAlerts.js';
+import { FLAIR_DIGEST_CADENCE_OPTIONS, FLAIR_DIGEST_DESTINATION_OPTIONS } from './FlairDigest.js';
 import './RedditUtils';
 import './UserFlairs';
+import './FlairSnapshots';
+import './FlairWiki';
+import './FlairExport';
+import './FlairBulkActions';
+import './FlairBreakdowns';
+import './FlairLookup';
+import './FlairAccountStatus';
+import './FlairDashboard';
+import './FlairCensus';
+import './FlairPolicy';
+import './FlairImpersonation';
+import './FlairAlerts';
+import './FlairDigest';
+import './FlairQuery';
+import './FlairTriggers';
 
 Devvit.configure({
   redditAPI: true,
@@ -40,22 +62,432 @@ Devvit.addSettings(
 		defaultValue: 30,
     scope: SettingScope.App,
 	},
+	{
+		name: "flairScanFrequency",
+		type: "select",
+		label: "How often to run a full user flair rescan in the background",
+		options: [
+			{ label: "Never (manual scans only)", value: "never" },
+			{ label: "Daily", value: "daily" },
+			{ label: "Weekly", value: "weekly" },
+		],
+		defaultValue: ["never"],
+		multiSelect: false,
+	},
+	{
+		name: "flairSnapshotRetention",
+		type: "number",
+		label: "How many completed flair scans to keep as snapshots for comparison",
+		defaultValue: 10,
+		onValidate: ({ value }) => {
+			if (value === undefined || value < 2 || value > 50) {
+				return "Keep between 2 and 50 snapshots";
+			}
+		},
+	},
+	{
+		name: "flairWikiPage",
+		type: "string",
+		label: "Wiki page to publish the user flair breakdown to",
+		defaultValue: "flair-fax/user-flairs",
+		onValidate: ({ value }) => {
+			if (!value || !/^[\w-]+(\/[\w-]+)*$/.test(value)) {
+				return "Use a wiki page name like flair-fax/user-flairs";
+			}
+		},
+	},
+	{
+		name: "flairWikiAutoPublish",
+		type: "boolean",
+		label: "Publish the breakdown to the wiki after every completed scan",
+		defaultValue: false,
+	},
+	{
+		name: "flairLiveUpdates",
+		type: "boolean",
+		label: "Keep the flair breakdown current from flair edits and new posts/comments between scans",
+		defaultValue: true,
+	},
+	{
+		name: "flairEmptyTextHandling",
+		type: "select",
+		label: "Users whose flair has a CSS class or template but no text",
+		options: [
+			{ label: "Leave them out of the breakdown", value: "exclude" },
+			{ label: "Count them in one (no text) group", value: "single" },
+			{ label: "Count them in (no text) groups per CSS class or template", value: "byStyle" },
+		],
+		defaultValue: ["byStyle"],
+		multiSelect: false,
+	},
+	{
+		name: "flairNormalizeRules",
+		type: "select",
+		label: "Treat flair texts as the same when they differ only by",
+		options: FLAIR_NORMALIZE_RULE_OPTIONS,
+		defaultValue: FLAIR_NORMALIZE_RULE_OPTIONS.map((o) => o.value),
+		multiSelect: true,
+	},
+	{
+		name: "flairNormalizeRewrites",
+		type: "paragraph",
+		label: "Extra flair rewrites, one per line: pattern => replacement (or /pattern/flags => replacement)",
+		defaultValue: "",
+		onValidate: ({ value }) => {
+			const { errors } = parseRegexRewrites(value ?? "");
+			if (errors.length > 0) {
+				return errors.join("; ");
+			}
+		},
+	},
+	{
+		type: "group",
+		label: "Mod permissions needed for User Flairs actions (leave empty to allow any moderator)",
+		fields: [
+			{
+				name: "flairPermsView",
+				type: "select",
+				label: "View results, lookups and reports",
+				options: MOD_PERMISSION_OPTIONS,
+				defaultValue: ["flair"],
+				multiSelect: true,
+			},
+			{
+				name: "flairPermsScan",
+				type: "select",
+				label: "Start, continue or retry a scan",
+				options: MOD_PERMISSION_OPTIONS,
+				defaultValue: ["flair"],
+				multiSelect: true,
+			},
+			{
+				name: "flairPermsExport",
+				type: "select",
+				label: "Export to modmail or publish to the wiki",
+				options: MOD_PERMISSION_OPTIONS,
+				defaultValue: ["flair"],
+				multiSelect: true,
+			},
+			{
+				name: "flairPermsManage",
+				type: "select",
+				label: "Cancel or reset a scan, bulk flair changes",
+				options: MOD_PERMISSION_OPTIONS,
+				defaultValue: ["all"],
+				multiSelect: true,
+			},
+		],
+	},
+	{
+		type: "group",
+		label: "Public flair census post (counts per flair only, never usernames)",
+		fields: [
+			{
+				name: "flairCensusEnabled",
+				type: "boolean",
+				label: "Publish a public census post and refresh it after every completed scan",
+				defaultValue: false,
+			},
+			{
+				name: "flairCensusSticky",
+				type: "boolean",
+				label: "Pin the census post when it is first submitted",
+				defaultValue: true,
+			},
+			{
+				name: "flairCensusInclude",
+				type: "paragraph",
+				label: "Only list these flairs, one per line or /pattern/flags (leave empty to list all)",
+				defaultValue: "",
+				onValidate: ({ value }) => {
+					const { errors } = parseFlairPatterns(value ?? "");
+					if (errors.length > 0) {
+						return errors.join("; ");
+					}
+				},
+			},
+			{
+				name: "flairCensusExclude",
+				type: "paragraph",
+				label: "Never list these flairs (e.g. staff or verification), one per line or /pattern/flags",
+				defaultValue: "",
+				onValidate: ({ value }) => {
+					const { errors } = parseFlairPatterns(value ?? "");
+					if (errors.length > 0) {
+						return errors.join("; ");
+					}
+				},
+			},
+			{
+				name: "flairCensusMinGroupSize",
+				type: "number",
+				label: "Smallest flair group to list on its own (smaller groups are combined under Other)",
+				defaultValue: 10,
+				onValidate: ({ value }) => {
+					if (value === undefined || value < 1) {
+						return "Use 1 or more";
+					}
+				},
+			},
+		],
+	},
+	{
+		type: "group",
+		label: "Flair policy rules (checked after every completed scan)",
+		fields: [
+			{
+				name: "flairPolicyBannedWords",
+				type: "paragraph",
+				label: "Banned words or phrases, one per line (whole words, any case)",
+				defaultValue: "",
+			},
+			{
+				name: "flairPolicyPatterns",
+				type: "paragraph",
+				label: "Banned patterns, one regular expression per line (case-insensitive) or /pattern/flags",
+				defaultValue: "",
+				onValidate: ({ value }) => {
+					const { errors } = parsePolicyPatterns(value ?? "");
+					if (errors.length > 0) {
+						return errors.join("; ");
+					}
+				},
+			},
+			{
+				name: "flairPolicyMaxLength",
+				type: "number",
+				label: "Longest allowed flair text in characters (0 = no limit)",
+				defaultValue: 0,
+				onValidate: ({ value }) => {
+					if (value === undefined || value < 0) {
+						return "Use 0 or more";
+					}
+				},
+			},
+			{
+				name: "flairPolicyAllowedTemplates",
+				type: "paragraph",
+				label: "Only allow these flair templates, one template ID or default text per line (leave empty to allow any)",
+				defaultValue: "",
+			},
+			{
+				name: "flairPolicyAutoFix",
+				type: "select",
+				label: "After each check, propose a fix for flairs that break a rule (a mod confirms it before anything changes)",
+				options: FLAIR_POLICY_FIX_OPTIONS,
+				defaultValue: ["off"],
+				multiSelect: false,
+			},
+		],
+	},
+	{
+		type: "group",
+		label: "Impersonation check",
+		fields: [
+			{
+				name: "flairProtectedFlairs",
+				type: "paragraph",
+				label: "Protected flairs only moderators may hold, one flair text, template ID or /pattern/flags per line",
+				defaultValue: "Moderator\nOfficial\nAdmin",
+				onValidate: ({ value }) => {
+					const { errors } = parseProtectedFlairs(value ?? "");
+					if (errors.length > 0) {
+						return errors.join("; ");
+					}
+				},
+			},
+			{
+				name: "flairProtectedAllowedUsers",
+				type: "paragraph",
+				label: "Other users allowed to hold protected flairs (e.g. official accounts), one username per line",
+				defaultValue: "",
+			},
+		],
+	},
+	{
+		type: "group",
+		label: "Flair alerts (sent to modmail when a scan completes)",
+		fields: [
+			{
+				name: "flairAlertRules",
+				type: "paragraph",
+				label: "One rule per line: flair => max N, change N% (min M), new. Use * for every flair, or /pattern/flags",
+				defaultValue: "",
+				onValidate: ({ value }) => {
+					const { errors } = parseAlertRules(value ?? "");
+					if (errors.length > 0) {
+						return errors.join("; ");
+					}
+				},
+			},
+		],
+	},
+	{
+		type: "group",
+		label: "Flair digest (a summary of the stored scan, sent by modmail)",
+		fields: [
+			{
+				name: "flairDigestCadence",
+				type: "select",
+				label: "How often to send the digest",
+				options: FLAIR_DIGEST_CADENCE_OPTIONS,
+				defaultValue: ["never"],
+				multiSelect: false,
+			},
+			{
+				name: "flairDigestDestination",
+				type: "select",
+				label: "Where to send it",
+				options: FLAIR_DIGEST_DESTINATION_OPTIONS,
+				defaultValue: ["modDiscussion"],
+				multiSelect: false,
+			},
+			{
+				name: "flairDigestRecipients",
+				type: "paragraph",
+				label: "Also send it to these users, one username per line (moderators get it in Mod Discussions)",
+				defaultValue: "",
+			},
+			{
+				name: "flairDigestTopCount",
+				type: "number",
+				label: "How many of the largest flairs to list",
+				defaultValue: 10,
+				onValidate: ({ value }) => {
+					if (value === undefined || value < 1 || value > 100) {
+						return "Use a number from 1 to 100";
+					}
+				},
+			},
+		],
+	},
 ]);
 
 export interface AppSettings {
 
   //how many seconds until Devvit times out execution
   devvitExecutionTimeoutSeconds: number;
+
+  //how often the background job rescans user flairs ('never' | 'daily' | 'weekly')
+  flairScanFrequency: string;
+
+  //how many completed scan snapshots to keep for the "changes between scans" view
+  flairSnapshotRetention: number;
+
+  //wiki page the breakdown is published to, and whether to publish after every completed scan
+  flairWikiPage: string;
+  flairWikiAutoPublish: boolean;
+
+  //whether triggers patch the stored breakdown between full scans
+  flairLiveUpdates: boolean;
+
+  //how flairs without text are counted ('exclude' | 'single' | 'byStyle')
+  flairEmptyTextHandling: string;
+
+  //normalization rules for clustering flair variants, plus custom regex rewrites (one per line)
+  flairNormalizeRules: string[];
+  flairNormalizeRewrites: string;
+
+  //mod permissions required per kind of User Flairs action (empty = any moderator)
+  flairPermsView: string[];
+  flairPermsScan: string[];
+  flairPermsExport: string[];
+  flairPermsManage: string[];
+
+  //public census post: opt-in, pinned on first submit, include/exclude flair lists, smallest group listed on its own
+  flairCensusEnabled: boolean;
+  flairCensusSticky: boolean;
+  flairCensusInclude: string;
+  flairCensusExclude: string;
+  flairCensusMinGroupSize: number;
+
+  //flair policy: banned words and patterns (one per line), max length (0 = off), allowed templates, auto-fix ('off' | 'reset' | 'clear')
+  flairPolicyBannedWords: string;
+  flairPolicyPatterns: string;
+  flairPolicyMaxLength: number;
+  flairPolicyAllowedTemplates: string;
+  flairPolicyAutoFix: string;
+
+  //impersonation check: protected flair texts, template IDs or patterns, and non-mods allowed to hold them (one per line)
+  flairProtectedFlairs: string;
+  flairProtectedAllowedUsers: string;
+
+  //alert rules checked after every completed scan, one `flair => conditions` per line
+  flairAlertRules: string;
+
+  //digest: cadence ('never' | 'weekly' | 'monthly'), destination ('modDiscussion' | 'modInbox' | 'modNotification' | 'none'), extra recipients (one per line), top flairs listed
+  flairDigestCadence: string;
+  flairDigestDestination: string;
+  flairDigestRecipients: string;
+  flairDigestTopCount: number;
 }
 
 /**
  * Fetch all app settings in one go
  */
-export async function getAppSettings(context: Devvit.Context): Promise<AppSettings> {
+export async function getAppSettings(context: JobContext): Promise<AppSettings> {
   const devvitExecutionTimeoutSeconds = parseInt((await context.settings.get('devvitExecutionTimeoutSeconds')) as string ?? '30', 10);
+  const flairScanFrequency = ((await context.settings.get('flairScanFrequency')) as string[] | undefined)?.[0] ?? 'never';
+  const flairSnapshotRetention = (await context.settings.get('flairSnapshotRetention')) as number ?? 10;
+  const flairWikiPage = (await context.settings.get('flairWikiPage')) as string || 'flair-fax/user-flairs';
+  const flairWikiAutoPublish = !!(await context.settings.get('flairWikiAutoPublish'));
+  const flairLiveUpdates = (await context.settings.get('flairLiveUpdates')) as boolean ?? true;
+  const flairEmptyTextHandling = ((await context.settings.get('flairEmptyTextHandling')) as string[] | undefined)?.[0] ?? 'byStyle';
+  const flairNormalizeRules = (await context.settings.get('flairNormalizeRules')) as string[] ?? FLAIR_NORMALIZE_RULE_OPTIONS.map((o) => o.value);
+  const flairNormalizeRewrites = (await context.settings.get('flairNormalizeRewrites')) as string ?? '';
+  const flairPermsView = (await context.settings.get('flairPermsView')) as string[] ?? ['flair'];
+  const flairPermsScan = (await context.settings.get('flairPermsScan')) as string[] ?? ['flair'];
+  const flairPermsExport = (await context.settings.get('flairPermsExport')) as string[] ?? ['flair'];
+  const flairPermsManage = (await context.settings.get('flairPermsManage')) as string[] ?? ['all'];
+  const flairCensusEnabled = !!(await context.settings.get('flairCensusEnabled'));
+  const flairCensusSticky = (await context.settings.get('flairCensusSticky')) as boolean ?? true;
+  const flairCensusInclude = (await context.settings.get('flairCensusInclude')) as string ?? '';
+  const flairCensusExclude = (await context.settings.get('flairCensusExclude')) as string ?? '';
+  const flairCensusMinGroupSize = (await context.settings.get('flairCensusMinGroupSize')) as number ?? 10;
+  const flairPolicyBannedWords = (await context.settings.get('flairPolicyBannedWords')) as string ?? '';
+  const flairPolicyPatterns = (await context.settings.get('flairPolicyPatterns')) as string ?? '';
+  const flairPolicyMaxLength = (await context.settings.get('flairPolicyMaxLength')) as number ?? 0;
+  const flairPolicyAllowedTemplates = (await context.settings.get('flairPolicyAllowedTemplates')) as string ?? '';
+  const flairPolicyAutoFix = ((await context.settings.get('flairPolicyAutoFix')) as string[] | undefined)?.[0] ?? 'off';
+  const flairProtectedFlairs = (await context.settings.get('flairProtectedFlairs')) as string ?? 'Moderator\nOfficial\nAdmin';
+  const flairProtectedAllowedUsers = (await context.settings.get('flairProtectedAllowedUsers')) as string ?? '';
+  const flairAlertRules = (await context.settings.get('flairAlertRules')) as string ?? '';
+  const flairDigestCadence = ((await context.settings.get('flairDigestCadence')) as string[] | undefined)?.[0] ?? 'never';
+  const flairDigestDestination = ((await context.settings.get('flairDigestDestination')) as string[] | undefined)?.[0] ?? 'modDiscussion';
+  const flairDigestRecipients = (await context.settings.get('flairDigestRecipients')) as string ?? '';
+  const flairDigestTopCount = (await context.settings.get('flairDigestTopCount')) as number ?? 10;
 
 	return {
     devvitExecutionTimeoutSeconds,
+    flairScanFrequency,
+    flairSnapshotRetention,
+    flairWikiPage,
+    flairWikiAutoPublish,
+    flairLiveUpdates,
+    flairEmptyTextHandling,
+    flairNormalizeRules,
+    flairNormalizeRewrites,
+    flairPermsView,
+    flairPermsScan,
+    flairPermsExport,
+    flairPermsManage,
+    flairCensusEnabled,
+    flairCensusSticky,
+    flairCensusInclude,
+    flairCensusExclude,
+    flairCensusMinGroupSize,
+    flairPolicyBannedWords,
+    flairPolicyPatterns,
+    flairPolicyMaxLength,
+    flairPolicyAllowedTemplates,
+    flairPolicyAutoFix,
+    flairProtectedFlairs,
+    flairProtectedAllowedUsers,
+    flairAlertRules,
+    flairDigestCadence,
+    flairDigestDestination,
+    flairDigestRecipients,
+    flairDigestTopCount,
 	};
 }
 